@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { formatAnchor, mentionsPath, normalizeAnchors, normalizePath } from '../src/anchors.js';
+
+describe('Anchors', () => {
+  it('should normalise paths', () => {
+    assert.strictEqual(normalizePath('./src\\api//routes.ts'), 'src/api/routes.ts');
+    assert.strictEqual(normalizePath('src/./api/'), 'src/api');
+  });
+
+  it('should turn a single line into a range and lower-case the commit', () => {
+    assert.deepStrictEqual(normalizeAnchors([{ path: 'src/a.ts', startLine: 3, symbol: ' run ', commit: 'ABCDEF1' }]), [
+      { path: 'src/a.ts', startLine: 3, endLine: 3, symbol: 'run', commit: 'abcdef1' },
+    ]);
+  });
+
+  it('should reject invalid anchors', () => {
+    assert.throws(() => normalizeAnchors([{ path: '' }]), /Anchor path is required/);
+    assert.throws(() => normalizeAnchors([{ path: 'a.ts', startLine: 0 }]), /Invalid anchor line/);
+    assert.throws(() => normalizeAnchors([{ path: 'a.ts', endLine: 4 }]), /Invalid anchor line range/);
+    assert.throws(() => normalizeAnchors([{ path: 'a.ts', commit: 'main' }]), /Invalid anchor commit/);
+  });
+
+  it('should only count whole paths as mentions', () => {
+    assert.ok(mentionsPath('api', 'api'));
+    assert.ok(mentionsPath('see `src/api`, then deploy', 'src/api'));
+    assert.ok(mentionsPath('broken in api/routes.ts', './api'));
+    assert.ok(mentionsPath('look at src/worker.ts:40.', 'src/worker.ts'));
+    assert.ok(!mentionsPath('a rapid fix for the description', 'api'));
+    assert.ok(!mentionsPath('renamed api.ts', 'api'));
+    assert.ok(!mentionsPath('see srcXworker.ts', 'src.worker.ts'));
+  });
+
+  it('should format anchors compactly', () => {
+    assert.strictEqual(formatAnchor({ path: 'src/a.ts' }), 'src/a.ts');
+    assert.strictEqual(formatAnchor({ path: 'src/a.ts', startLine: 3, endLine: 3 }), 'src/a.ts:3');
+    assert.strictEqual(
+      formatAnchor({ path: 'src/a.ts', startLine: 3, endLine: 9, symbol: 'run', commit: 'abcdef1234' }),
+      'src/a.ts:3-9#run@abcdef1'
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { DEFAULT_CONFIG, getDatabasePath, loadConfig } from '../src/config.js';
+
+describe('Config', () => {
+  let testDir: string;
+  let repoDir: string;
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'jot-test-'));
+    repoDir = join(testDir, 'repo');
+    mkdirSync(join(repoDir, '.git'), { recursive: true });
+    mkdirSync(join(testDir, 'xdg', 'jot-mcp'), { recursive: true });
+    env = { XDG_CONFIG_HOME: join(testDir, 'xdg'), APPDATA: join(testDir, 'xdg') };
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function writeUserConfig(settings: object): void {
+    writeFileSync(join(testDir, 'xdg', 'jot-mcp', 'config.json'), JSON.stringify(settings));
+  }
+
+  it('should use defaults without config files', () => {
+    const config = loadConfig(repoDir, env);
+
+    assert.deepStrictEqual(config, DEFAULT_CONFIG);
+  });
+
+  it('should let the repo config override the user config', () => {
+    writeUserConfig({ defaultTtlDays: 7, defaultTags: ['mine'], cleanup: { mode: 'delete' } });
+    writeFileSync(join(repoDir, '.jot.json'), JSON.stringify({ defaultTtlDays: 30 }));
+
+    const config = loadConfig(repoDir, env);
+
+    assert.strictEqual(config.defaultTtlDays, 30);
+    assert.deepStrictEqual(config.defaultTags, ['mine']);
+    assert.strictEqual(config.cleanup.mode, 'delete');
+    assert.strictEqual(config.cleanup.trashRetentionDays, DEFAULT_CONFIG.cleanup.trashRetentionDays);
+  });
+
+  it('should find the repo config from a subdirectory but not above the repo root', () => {
+    const subDir = join(repoDir, 'src', 'deep');
+    mkdirSync(subDir, { recursive: true });
+    writeFileSync(join(repoDir, '.jot.json'), JSON.stringify({ outputFormat: 'markdown' }));
+    writeFileSync(join(testDir, '.jot.json'), JSON.stringify({ outputFormat: 'ndjson' }));
+
+    assert.strictEqual(loadConfig(subDir, env).outputFormat, 'markdown');
+
+    rmSync(join(repoDir, '.jot.json'));
+    assert.strictEqual(loadConfig(subDir, env).outputFormat, 'json');
+  });
+
+  it('should resolve a relative database path against the config file', () => {
+    writeFileSync(join(repoDir, '.jot.json'), JSON.stringify({ databasePath: 'data/jots.sqlite' }));
+
+    const config = loadConfig(repoDir, env);
+
+    assert.strictEqual(getDatabasePath(config), join(repoDir, 'data', 'jots.sqlite'));
+  });
+
+  it('should apply environment overrides last', () => {
+    writeUserConfig({ defaultTtlDays: 7, outputFormat: 'ndjson' });
+
+    const config = loadConfig(repoDir, {
+      ...env,
+      JOT_DB_PATH: join(testDir, 'other.sqlite'),
+      JOT_DEFAULT_TTL_DAYS: '0',
+      JOT_DEFAULT_TAGS: 'work, team',
+      JOT_CLEANUP_MODE: 'delete',
+    });
+
+    assert.strictEqual(config.databasePath, join(testDir, 'other.sqlite'));
+    assert.strictEqual(config.defaultTtlDays, 0);
+    assert.deepStrictEqual(config.defaultTags, ['work', 'team']);
+    assert.strictEqual(config.cleanup.mode, 'delete');
+    assert.strictEqual(config.outputFormat, 'ndjson');
+  });
+
+  it('should reject unknown and invalid settings', () => {
+    writeFileSync(join(repoDir, '.jot.json'), JSON.stringify({ ttl: 5 }));
+    assert.throws(() => loadConfig(repoDir, env), /unknown setting ttl/);
+
+    writeFileSync(join(repoDir, '.jot.json'), JSON.stringify({ contextNaming: { separator: '' } }));
+    assert.throws(() => loadConfig(repoDir, env), /contextNaming.separator/);
+
+    writeFileSync(join(repoDir, '.jot.json'), JSON.stringify({ duplicates: { onDuplicate: 'ignore' } }));
+    assert.throws(() => loadConfig(repoDir, env), /duplicates.onDuplicate/);
+
+    writeFileSync(join(repoDir, '.jot.json'), '{ not json');
+    assert.throws(() => loadConfig(repoDir, env), /Invalid config file/);
+
+    rmSync(join(repoDir, '.jot.json'));
+    assert.throws(() => loadConfig(repoDir, { ...env, JOT_CLEANUP_MODE: 'shred' }), /cleanup.mode/);
+  });
+});
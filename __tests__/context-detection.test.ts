@@ -0,0 +1,126 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { pathToFileURL } from 'url';
+import {
+  contextFileStrategy,
+  detectContext,
+  gitStrategy,
+  mapBranch,
+  parseRemoteUrl,
+  toDirectoryPath,
+} from '../src/context-detection.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { ContextNamingConfig } from '../src/types.js';
+
+const naming = (overrides: Partial<ContextNamingConfig> = {}): ContextNamingConfig => ({
+  ...DEFAULT_CONFIG.contextNaming,
+  ...overrides,
+});
+
+describe('Context Detection', () => {
+  let testDir: string;
+
+  before(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'jot-test-'));
+  });
+
+  after(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('parseRemoteUrl', () => {
+    it('should parse SSH and HTTPS remotes', () => {
+      assert.deepStrictEqual(parseRemoteUrl('git@github.com:acme/api.git'), { owner: 'acme', repo: 'api' });
+      assert.deepStrictEqual(parseRemoteUrl('https://github.com/acme/api'), { owner: 'acme', repo: 'api' });
+    });
+
+    it('should only strip a trailing .git', () => {
+      assert.deepStrictEqual(parseRemoteUrl('https://github.com/acme/my.github-tools.git'), {
+        owner: 'acme',
+        repo: 'my.github-tools',
+      });
+    });
+  });
+
+  describe('mapBranch', () => {
+    it('should map configured main branches to the repository', () => {
+      const config = naming({ mainBranches: ['main', 'develop'] });
+
+      assert.strictEqual(mapBranch('develop', config), null);
+      assert.strictEqual(mapBranch('fix-login', config), 'fix-login');
+    });
+
+    it('should strip branch prefixes', () => {
+      assert.strictEqual(mapBranch('feature/login', naming({ stripBranchPrefixes: ['feature/'] })), 'login');
+    });
+
+    it('should prefer a ticket ID from the branch name', () => {
+      const config = naming({ ticketPattern: '([A-Z]+-\\d+)', stripBranchPrefixes: ['feature/'] });
+
+      assert.strictEqual(mapBranch('feature/PROJ-123-login', config), 'PROJ-123');
+      assert.strictEqual(mapBranch('feature/cleanup', config), 'cleanup');
+    });
+  });
+
+  describe('gitStrategy', () => {
+    const git = { root: '/work/mono', remoteUrl: 'git@github.com:acme/mono.git', branch: 'feature/x' };
+
+    it('should include the monorepo package and branch', () => {
+      const detected = gitStrategy({ cwd: '/work/mono/packages/api/src', git }, naming());
+
+      assert.strictEqual(detected!.name, 'mono/api/feature/x');
+      assert.strictEqual(detected!.qualifiedName, 'acme/mono/api/feature/x');
+      assert.strictEqual(detected!.parentName, 'mono/api');
+      assert.strictEqual(detected!.repository, 'git@github.com:acme/mono.git');
+    });
+
+    it('should use the owner when configured', () => {
+      const detected = gitStrategy({ cwd: '/work/mono', git: { ...git, branch: 'main' } }, naming({ includeOwner: true }));
+
+      assert.strictEqual(detected!.name, 'acme/mono');
+    });
+
+    it('should fall back to the repository folder without a remote', () => {
+      const detected = gitStrategy({ cwd: '/work/mono', git: { ...git, remoteUrl: null, branch: null } }, naming());
+
+      assert.deepStrictEqual(detected, {
+        name: 'mono',
+        repository: null,
+        qualifiedName: undefined,
+        parentName: undefined,
+      });
+    });
+  });
+
+  describe('contextFileStrategy', () => {
+    it('should read the nearest .jot-context', () => {
+      const nested = join(testDir, 'repo', 'docs');
+      mkdirSync(nested, { recursive: true });
+      writeFileSync(join(testDir, 'repo', '.jot-context'), '# shared notes\nplatform-team\n');
+
+      const detected = contextFileStrategy({ cwd: nested, git: null }, naming());
+
+      assert.deepStrictEqual(detected, { name: 'platform-team', repository: null });
+    });
+  });
+
+  describe('toDirectoryPath', () => {
+    it('should accept paths and file URIs', () => {
+      assert.strictEqual(toDirectoryPath(pathToFileURL(testDir).href), testDir);
+      assert.strictEqual(toDirectoryPath(testDir), testDir);
+    });
+
+    it('should reject missing directories', () => {
+      assert.throws(() => toDirectoryPath(join(testDir, 'missing')), /Directory not found/);
+    });
+  });
+
+  it('should run strategies in order', () => {
+    const detected = detectContext(testDir, naming(), [() => null, () => ({ name: 'custom', repository: null })]);
+
+    assert.strictEqual(detected.name, 'custom');
+  });
+});
@@ -3,7 +3,9 @@ import assert from 'node:assert';
 import { mkdtempSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import Database from 'better-sqlite3';
 import { initializeDatabase } from '../src/database.js';
+import { SCHEMA_VERSION, getSchemaVersion } from '../src/migrations.js';
 
 describe('Database', () => {
   let testDir: string;
@@ -66,4 +68,21 @@ describe('Database', () => {
     db1.close();
     db2.close();
   });
+
+  it('should record the current schema version', () => {
+    const db = initializeDatabase(dbPath);
+
+    assert.strictEqual(getSchemaVersion(db), SCHEMA_VERSION);
+
+    db.close();
+  });
+
+  it('should refuse to open a database from a newer version', () => {
+    const newerPath = join(testDir, 'newer.db');
+    const raw = new Database(newerPath);
+    raw.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+    raw.close();
+
+    assert.throws(() => initializeDatabase(newerPath), /newer than supported/);
+  });
 });
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  findDuplicate,
+  findDuplicateClusters,
+  messageHash,
+  messageSimilarity,
+  normalizeMessage,
+} from '../src/duplicates.js';
+import { JotEntry } from '../src/types.js';
+
+function jot(id: number, message: string, createdAt = id): JotEntry {
+  return {
+    id,
+    contextId: 1,
+    parentId: null,
+    message,
+    createdAt,
+    updatedAt: createdAt,
+    expiresAt: null,
+    status: 'open',
+    completedAt: null,
+    priority: 'normal',
+    pinned: false,
+    deletedAt: null,
+    archivedAt: null,
+    tags: [],
+    metadata: {},
+    links: [],
+    anchors: [],
+  };
+}
+
+describe('Duplicates', () => {
+  it('should ignore case, punctuation and spacing', () => {
+    assert.strictEqual(normalizeMessage('  Auth tokens:\n expire after 15-min!'), 'auth tokens expire after 15 min');
+    assert.strictEqual(messageHash('Use Redis.'), messageHash('use   redis'));
+    assert.strictEqual(messageSimilarity('Use Redis.', 'use redis'), 1);
+  });
+
+  it('should score reworded messages above different ones', () => {
+    const reworded = messageSimilarity(
+      'Auth tokens expire after 15 minutes',
+      'Auth tokens now expire after 15 minutes.'
+    );
+    const different = messageSimilarity('Use redis for the session cache', 'Use memcached for the session cache');
+
+    assert.ok(reworded > 0.85, `reworded: ${reworded}`);
+    assert.ok(different < 0.85, `different: ${different}`);
+  });
+
+  it('should prefer exact duplicates over near ones', () => {
+    const jots = [jot(1, 'Auth tokens now expire after 15 minutes'), jot(2, 'auth tokens expire after 15 minutes!')];
+
+    assert.deepStrictEqual(findDuplicate('Auth tokens expire after 15 minutes', jots, 0.85), {
+      jot: jots[1],
+      similarity: 1,
+    });
+    assert.strictEqual(findDuplicate('Rotate the signing keys', jots, 0.85), null);
+  });
+
+  it('should cluster duplicates under the oldest jot', () => {
+    const clusters = findDuplicateClusters(
+      [
+        jot(3, 'Auth tokens expire after 15 minutes', 30),
+        jot(1, 'Auth tokens now expire after 15 minutes', 10),
+        jot(2, 'Use redis for the session cache', 20),
+        jot(4, 'use redis for the session cache.', 40),
+      ],
+      0.85
+    );
+
+    assert.deepStrictEqual(
+      clusters.map((c) => [c.keep.id, ...c.duplicates.map((d) => d.jot.id)]),
+      [
+        [1, 3],
+        [2, 4],
+      ]
+    );
+    assert.strictEqual(clusters[1].duplicates[0].similarity, 1);
+  });
+
+  it('should find every pair at or above the threshold', () => {
+    const words = ['auth', 'token', 'cache', 'redis', 'now', 'the', 'a', 'expire'];
+    const jots = Array.from({ length: 40 }, (_, i) =>
+      jot(i + 1, Array.from({ length: 3 + (i % 4) }, (_, w) => words[(i * 7 + w * w * 3) % words.length]).join(' '))
+    );
+
+    assert.ok(findDuplicateClusters(jots, 0.5).length > 0);
+    for (const threshold of [0.5, 0.85]) {
+      const clustered = new Map<number, number>();
+      for (const cluster of findDuplicateClusters(jots, threshold)) {
+        for (const { jot: duplicate } of cluster.duplicates) clustered.set(duplicate.id, cluster.keep.id);
+      }
+      const keptWith = (id: number) => clustered.get(id) ?? id;
+      for (const a of jots) {
+        for (const b of jots) {
+          if (a.id < b.id && messageSimilarity(a.message, b.message) >= threshold) {
+            assert.strictEqual(keptWith(a.id), keptWith(b.id), `${a.message} / ${b.message}`);
+          }
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { HashedNgramEmbedding, cosineSimilarity, decodeVector, encodeVector } from '../src/embeddings.js';
+
+describe('Embeddings', () => {
+  const provider = new HashedNgramEmbedding();
+
+  it('should embed text deterministically into unit vectors', () => {
+    const vector = provider.embed('Renew the TLS certificate');
+
+    assert.strictEqual(vector.length, 512);
+    assert.deepStrictEqual(provider.embed('renew the tls certificate!'), vector);
+    assert.ok(Math.abs(cosineSimilarity(vector, vector) - 1) < 1e-6);
+  });
+
+  it('should score related texts above unrelated ones', () => {
+    const query = provider.embed('renew certificate');
+
+    const related = cosineSimilarity(query, provider.embed('Renewal of the TLS certificate is due'));
+    const unrelated = cosineSimilarity(query, provider.embed('Refactor the login form validation'));
+
+    assert.ok(related > 0.3, `related: ${related}`);
+    assert.ok(unrelated < 0.1, `unrelated: ${unrelated}`);
+  });
+
+  it('should treat empty text as similar to nothing', () => {
+    assert.strictEqual(cosineSimilarity(provider.embed('...'), provider.embed('anything')), 0);
+  });
+
+  it('should round-trip vectors through BLOBs', () => {
+    const vector = provider.embed('round trip');
+
+    assert.deepStrictEqual(decodeVector(encodeVector(vector)), vector);
+  });
+});
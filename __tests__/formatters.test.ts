@@ -6,6 +6,10 @@ import {
   formatContextEntry,
   formatContextList,
   formatSearchCriteria,
+  formatRevisionList,
+  formatMetadataCounts,
+  formatTagCounts,
+  formatDuplicateClusters,
 } from '../src/formatters.js';
 import { JotEntry, Context } from '../src/types.js';
 
@@ -15,12 +19,21 @@ describe('Formatters', () => {
       const jot: JotEntry = {
         id: 1,
         contextId: 1,
+        parentId: null,
         message: 'Test message',
         createdAt: new Date('2025-10-27T12:00:00').getTime(),
         updatedAt: new Date('2025-10-27T12:00:00').getTime(),
         expiresAt: Date.now() + 1000000,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
         tags: [],
         metadata: {},
+        links: [],
+        anchors: [],
       };
 
       const formatted = formatJotEntry(jot, 0, false);
@@ -33,12 +46,21 @@ describe('Formatters', () => {
       const jot: JotEntry = {
         id: 1,
         contextId: 1,
+        parentId: null,
         message: 'Test message',
         createdAt: Date.now(),
         updatedAt: Date.now(),
         expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
         tags: ['bug', 'urgent'],
         metadata: {},
+        links: [],
+        anchors: [],
       };
 
       const formatted = formatJotEntry(jot, 0, false);
@@ -47,16 +69,83 @@ describe('Formatters', () => {
       assert.ok(formatted.includes('tags:bug,urgent'));
     });
 
+    it('should show link references as seen from the jot', () => {
+      const jot: JotEntry = {
+        id: 14,
+        contextId: 1,
+        parentId: null,
+        message: 'Use memcached',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [
+          { jotId: 12, relation: 'supersedes', direction: 'outgoing' },
+          { jotId: 7, relation: 'blocks', direction: 'incoming' },
+        ],
+        anchors: [],
+      };
+
+      const formatted = formatJotEntry(jot, 0, false);
+
+      assert.ok(formatted.includes('links:supersedes#12,blocked-by#7'));
+    });
+
+    it('should show code anchors', () => {
+      const jot: JotEntry = {
+        id: 15,
+        contextId: 1,
+        parentId: null,
+        message: 'Flush the queue before shutdown',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [],
+        anchors: [
+          { path: 'src/worker.ts', startLine: 40, endLine: 52, symbol: 'flushQueue', commit: 'abc1234def5678' },
+          { path: 'src/queue.ts', startLine: 7, endLine: 7 },
+        ],
+      };
+
+      const formatted = formatJotEntry(jot, 0, false);
+
+      assert.ok(formatted.includes('at:src/worker.ts:40-52#flushQueue@abc1234,src/queue.ts:7'));
+    });
+
     it('should format permanent jot', () => {
       const jot: JotEntry = {
         id: 1,
         contextId: 1,
+        parentId: null,
         message: 'Permanent note',
         createdAt: Date.now(),
         updatedAt: Date.now(),
         expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
         tags: [],
         metadata: {},
+        links: [],
+        anchors: [],
       };
 
       const formatted = formatJotEntry(jot, 0, false);
@@ -70,12 +159,21 @@ describe('Formatters', () => {
       const jot: JotEntry = {
         id: 1,
         contextId: 1,
+        parentId: null,
         message: 'Expiring note',
         createdAt: Date.now(),
         updatedAt: Date.now(),
         expiresAt,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
         tags: [],
         metadata: {},
+        links: [],
+        anchors: [],
       };
 
       const formatted = formatJotEntry(jot, 0, false);
@@ -89,12 +187,21 @@ describe('Formatters', () => {
       const jot: JotEntry = {
         id: 1,
         contextId: 1,
+        parentId: null,
         message: 'Test',
         createdAt: Date.now(),
         updatedAt: Date.now(),
         expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
         tags: [],
         metadata: {},
+        links: [],
+        anchors: [],
       };
 
       const formatted = formatJotEntry(jot, 0, true, 'my-context');
@@ -102,6 +209,117 @@ describe('Formatters', () => {
       assert.ok(formatted.includes('[1]'));
       assert.ok(formatted.includes('ctx:my-context'));
     });
+
+    it('should show status marker and completion date for closed jots', () => {
+      const jot: JotEntry = {
+        id: 1,
+        contextId: 1,
+        parentId: null,
+        message: 'Finished task',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        expiresAt: null,
+        status: 'done',
+        completedAt: new Date('2025-10-28T12:00:00').getTime(),
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [],
+        anchors: [],
+      };
+
+      const formatted = formatJotEntry(jot, 0, false);
+
+      assert.ok(formatted.includes('status:done'));
+      assert.ok(formatted.includes('completed:10/28/2025'));
+    });
+
+    it('should show pinned and priority markers', () => {
+      const jot: JotEntry = {
+        id: 1,
+        contextId: 1,
+        parentId: null,
+        message: 'Important',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'high',
+        pinned: true,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [],
+        anchors: [],
+      };
+
+      const formatted = formatJotEntry(jot, 0, false);
+
+      assert.ok(formatted.includes('pinned'));
+      assert.ok(formatted.includes('priority:high'));
+    });
+
+    it('should not show status marker for open jots', () => {
+      const jot: JotEntry = {
+        id: 1,
+        contextId: 1,
+        parentId: null,
+        message: 'Open task',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [],
+        anchors: [],
+      };
+
+      const formatted = formatJotEntry(jot, 0, false);
+
+      assert.ok(!formatted.includes('status:'));
+      assert.ok(!formatted.includes('priority:'));
+      assert.ok(!formatted.includes('pinned'));
+    });
+  });
+
+  describe('formatJotEntry snippets', () => {
+    it('should show the matched excerpt instead of the message', () => {
+      const jot: JotEntry = {
+        id: 1,
+        contextId: 1,
+        parentId: null,
+        message: 'a very long message about many things, including the cache',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [],
+        anchors: [],
+        snippet: '…including the **cache**',
+      };
+
+      const formatted = formatJotEntry(jot, 0, false);
+
+      assert.ok(formatted.startsWith('[1] …including the **cache**\n'));
+    });
   });
 
   describe('formatJotList', () => {
@@ -116,22 +334,40 @@ describe('Formatters', () => {
         {
           id: 1,
           contextId: 1,
+          parentId: null,
           message: 'Message 1',
           createdAt: Date.now(),
           updatedAt: Date.now(),
           expiresAt: null,
+          status: 'open',
+          completedAt: null,
+          priority: 'normal',
+          pinned: false,
+          deletedAt: null,
+          archivedAt: null,
           tags: [],
           metadata: {},
+          links: [],
+          anchors: [],
         },
         {
           id: 2,
           contextId: 1,
+          parentId: null,
           message: 'Message 2',
           createdAt: Date.now(),
           updatedAt: Date.now(),
           expiresAt: null,
+          status: 'open',
+          completedAt: null,
+          priority: 'normal',
+          pinned: false,
+          deletedAt: null,
+          archivedAt: null,
           tags: [],
           metadata: {},
+          links: [],
+          anchors: [],
         },
       ];
 
@@ -142,17 +378,63 @@ describe('Formatters', () => {
       assert.ok(formatted.includes('2 jots'));
     });
 
+    it('should nest child jots under their parent with its progress', () => {
+      const jot = (id: number, message: string, parentId: number | null): JotEntry => ({
+        id,
+        contextId: 1,
+        parentId,
+        message,
+        createdAt: new Date('2025-10-27T12:00:00').getTime(),
+        updatedAt: new Date('2025-10-27T12:00:00').getTime(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [],
+        anchors: [],
+      });
+      const parent = {
+        ...jot(1, 'Release 1.2', null),
+        progress: { closed: 1, total: 2 },
+        children: [{ ...jot(2, 'Tag the release', 1), status: 'done' as const }, jot(3, 'Publish notes', 1)],
+      };
+
+      const formatted = formatJotList([parent], 'Context: test', true, () => 'test');
+      const lines = formatted.split('\n');
+
+      assert.ok(lines[2].startsWith('[1] Release 1.2'));
+      assert.ok(lines[3].includes('progress:1/2'));
+      assert.strictEqual(lines[4], '  [2] Tag the release');
+      assert.ok(lines[5].startsWith('      status:done | parent:1 |'));
+      assert.strictEqual(lines[6], '  [3] Publish notes');
+      assert.ok(formatted.endsWith('\n\n3 jots'));
+    });
+
     it('should use singular for single jot', () => {
       const jots: JotEntry[] = [
         {
           id: 1,
           contextId: 1,
+          parentId: null,
           message: 'Message 1',
           createdAt: Date.now(),
           updatedAt: Date.now(),
           expiresAt: null,
+          status: 'open',
+          completedAt: null,
+          priority: 'normal',
+          pinned: false,
+          deletedAt: null,
+          archivedAt: null,
           tags: [],
           metadata: {},
+          links: [],
+          anchors: [],
         },
       ];
 
@@ -171,6 +453,12 @@ describe('Formatters', () => {
         repository: 'my-repo',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        deletedAt: null,
+        parentId: null,
+        description: null,
+        status: 'active',
+        defaultTtlDays: null,
+        defaultTags: [],
         jotCount: 5,
       };
 
@@ -188,6 +476,12 @@ describe('Formatters', () => {
         repository: null,
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        deletedAt: null,
+        parentId: null,
+        description: null,
+        status: 'active',
+        defaultTtlDays: null,
+        defaultTags: [],
         jotCount: 0,
       };
 
@@ -196,6 +490,28 @@ describe('Formatters', () => {
       assert.ok(formatted.includes('my-context *'));
     });
 
+    it('should show status, defaults and description', () => {
+      const context: Context = {
+        id: 1,
+        name: 'my-context',
+        repository: null,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        deletedAt: null,
+        parentId: null,
+        description: 'Ship the login flow',
+        status: 'archived',
+        defaultTtlDays: 0,
+        defaultTags: ['auth', 'web'],
+        jotCount: 0,
+      };
+
+      const formatted = formatContextEntry(context, 0, false);
+
+      assert.ok(formatted.includes('archived | ttl:permanent | default-tags:auth,web'));
+      assert.ok(formatted.endsWith('\n   Ship the login flow'));
+    });
+
     it('should use singular for single jot', () => {
       const context: Context = {
         id: 1,
@@ -203,6 +519,12 @@ describe('Formatters', () => {
         repository: null,
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        deletedAt: null,
+        parentId: null,
+        description: null,
+        status: 'active',
+        defaultTtlDays: null,
+        defaultTags: [],
         jotCount: 1,
       };
 
@@ -227,6 +549,12 @@ describe('Formatters', () => {
           repository: null,
           createdAt: Date.now(),
           updatedAt: Date.now(),
+          deletedAt: null,
+          parentId: null,
+          description: null,
+          status: 'active',
+          defaultTtlDays: null,
+          defaultTags: [],
           jotCount: 5,
         },
         {
@@ -235,6 +563,12 @@ describe('Formatters', () => {
           repository: null,
           createdAt: Date.now(),
           updatedAt: Date.now(),
+          deletedAt: null,
+          parentId: null,
+          description: null,
+          status: 'active',
+          defaultTtlDays: null,
+          defaultTags: [],
           jotCount: 3,
         },
       ];
@@ -248,6 +582,82 @@ describe('Formatters', () => {
     });
   });
 
+  describe('formatContextList hierarchy', () => {
+    it('should list children under their parent with rolled up counts', () => {
+      const base = {
+        repository: null,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        deletedAt: null,
+        description: null,
+        status: 'active' as const,
+        defaultTtlDays: null,
+        defaultTags: [],
+      };
+      const contexts: Context[] = [
+        { ...base, id: 2, name: 'repo/feature', parentId: 1, jotCount: 3 },
+        { ...base, id: 1, name: 'repo', parentId: null, jotCount: 2 },
+      ];
+
+      const formatted = formatContextList(contexts, 'repo/feature');
+
+      assert.ok(formatted.indexOf('repo\n') < formatted.indexOf('  repo/feature *'));
+      assert.ok(formatted.includes('2j (5j total)'));
+      assert.ok(formatted.includes('2 contexts, 5 jots'));
+    });
+  });
+
+  describe('formatMetadataCounts and formatTagCounts', () => {
+    it('should list keys or values with counts', () => {
+      assert.strictEqual(
+        formatMetadataCounts([{ name: '412', jotCount: 2 }], 'pr'),
+        'Metadata values of pr\n\n412 (2j)\n\n1 value'
+      );
+      assert.strictEqual(formatMetadataCounts([]), 'Metadata keys\nNo metadata.');
+      assert.strictEqual(formatTagCounts([{ name: 'bug', jotCount: 3 }], 'api'), 'Tags in api\n\nbug (3j)\n\n1 tag');
+    });
+  });
+
+  describe('formatDuplicateClusters', () => {
+    it('should list each kept jot with its duplicates', () => {
+      const jot = (id: number, message: string): JotEntry => ({
+        id,
+        contextId: 1,
+        parentId: null,
+        message,
+        createdAt: new Date('2025-10-27T12:00:00').getTime(),
+        updatedAt: new Date('2025-10-27T12:00:00').getTime(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: [],
+        metadata: {},
+        links: [],
+        anchors: [],
+      });
+      const clusters = [
+        {
+          keep: jot(1, 'Use redis'),
+          duplicates: [
+            { jot: jot(2, 'use redis!'), similarity: 1 },
+            { jot: jot(3, 'Use redis here'), similarity: 0.876 },
+          ],
+        },
+      ];
+
+      const formatted = formatDuplicateClusters(clusters, false, () => 'api');
+
+      assert.ok(formatted.startsWith('Merged duplicates\n\n[1] Use redis\n    ctx:api | '));
+      assert.ok(formatted.includes('\n  - [2] use redis! (exact)\n  - [3] Use redis here (87% similar)'));
+      assert.ok(formatted.endsWith('\n\n1 cluster, 2 duplicates moved to the trash'));
+      assert.strictEqual(formatDuplicateClusters([], true, () => undefined), 'Duplicates\nNo duplicates.');
+    });
+  });
+
   describe('formatSearchCriteria', () => {
     it('should format empty criteria', () => {
       const formatted = formatSearchCriteria({});
@@ -267,6 +677,26 @@ describe('Formatters', () => {
       assert.ok(formatted.includes('tags: bug, urgent'));
     });
 
+    it('should format metadata filters', () => {
+      const formatted = formatSearchCriteria({
+        metadata: [{ key: 'pr', value: '412' }, { key: 'path', value: 'src/', prefix: true }, { key: 'ticket' }],
+      });
+
+      assert.ok(formatted.includes('meta: pr=412, path=src/*, ticket=*'));
+    });
+
+    it('should format the path filter', () => {
+      const formatted = formatSearchCriteria({ path: 'src/api' });
+
+      assert.ok(formatted.includes('path: src/api'));
+    });
+
+    it('should format tag mode and excluded tags', () => {
+      const formatted = formatSearchCriteria({ tags: ['bug', 'prod'], tagMode: 'all', excludeTags: ['fixed'] });
+
+      assert.ok(formatted.includes('tags: bug + prod, not tags: fixed'));
+    });
+
     it('should format date criteria', () => {
       const from = new Date('2025-10-01').getTime();
       const to = new Date('2025-10-31').getTime();
@@ -289,4 +719,44 @@ describe('Formatters', () => {
       assert.ok(formatted.includes('from:'));
     });
   });
+
+  describe('formatRevisionList', () => {
+    it('should format empty history', () => {
+      const formatted = formatRevisionList(5, []);
+
+      assert.ok(formatted.includes('History of jot 5'));
+      assert.ok(formatted.includes('No revisions'));
+    });
+
+    it('should format revisions', () => {
+      const snapshot: JotEntry = {
+        id: 5,
+        contextId: 1,
+        parentId: null,
+        message: 'Previous text',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        expiresAt: null,
+        status: 'open',
+        completedAt: null,
+        priority: 'normal',
+        pinned: false,
+        deletedAt: null,
+        archivedAt: null,
+        tags: ['bug'],
+        metadata: {},
+        links: [],
+        anchors: [],
+      };
+
+      const formatted = formatRevisionList(5, [
+        { id: 9, jotId: 5, action: 'update', source: 'jot:update', snapshot, createdAt: Date.now() },
+      ]);
+
+      assert.ok(formatted.includes('[r9] update: Previous text'));
+      assert.ok(formatted.includes('by:jot:update'));
+      assert.ok(formatted.includes('tags:bug'));
+      assert.ok(formatted.includes('1 revision'));
+    });
+  });
 });
@@ -0,0 +1,52 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { initializeDatabase } from '../src/database.js';
+import { JotRepository } from '../src/repository.js';
+import { JotService } from '../src/service.js';
+import { ToolHandlers } from '../src/handlers.js';
+
+describe('ToolHandlers', () => {
+  let testDir: string;
+  let service: JotService;
+  let handlers: ToolHandlers;
+
+  before(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'jot-test-'));
+  });
+
+  after(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    const db = initializeDatabase(join(testDir, 'test.db'));
+    db.exec('DELETE FROM jots');
+    db.exec('DELETE FROM contexts');
+    service = new JotService(new JotRepository(db));
+    handlers = new ToolHandlers(service);
+  });
+
+  describe('list_jots', () => {
+    it('should list top-level jots but find child jots with filters', () => {
+      const parent = service.createJot({ message: 'release 1.2', contextName: 'api' });
+      service.createJot({
+        message: 'fix the worker crash',
+        parentId: parent.id,
+        tags: ['bug'],
+        anchors: [{ path: 'src/worker.ts' }],
+      });
+
+      const listed = handlers.handleListJots({ context: 'api' });
+      assert.ok(listed.includes('release 1.2'));
+      assert.ok(!listed.includes('fix the worker crash'));
+
+      for (const filters of [{ tags: ['bug'] }, { path: 'src/worker.ts' }, { status: ['open'] }]) {
+        const found = handlers.handleListJots({ context: 'api', ...filters });
+        assert.ok(found.includes('fix the worker crash'), JSON.stringify(filters));
+      }
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { formatContextMarkdown } from '../src/markdown.js';
+import { Context, JotEntry } from '../src/types.js';
+
+const context: Context = {
+  id: 1,
+  name: 'repo/feature-x',
+  repository: 'git@github.com:acme/repo.git',
+  createdAt: new Date('2025-10-01T12:00:00').getTime(),
+  updatedAt: new Date('2025-10-03T12:00:00').getTime(),
+  deletedAt: null,
+  parentId: null,
+  description: null,
+  status: 'active',
+  defaultTtlDays: null,
+  defaultTags: [],
+  jotCount: 3,
+};
+
+function makeJot(overrides: Partial<JotEntry>): JotEntry {
+  return {
+    id: 1,
+    contextId: 1,
+    parentId: null,
+    message: 'Test message',
+    createdAt: new Date('2025-10-01T12:00:00').getTime(),
+    updatedAt: new Date('2025-10-01T12:00:00').getTime(),
+    expiresAt: null,
+    status: 'open',
+    completedAt: null,
+    priority: 'normal',
+    pinned: false,
+    deletedAt: null,
+    archivedAt: null,
+    tags: [],
+    metadata: {},
+    links: [],
+    anchors: [],
+    ...overrides,
+  };
+}
+
+describe('Markdown', () => {
+  describe('formatContextMarkdown', () => {
+    it('should render front matter and title', () => {
+      const jots = [
+        makeJot({ id: 1, createdAt: new Date('2025-10-01T12:00:00').getTime() }),
+        makeJot({ id: 2, createdAt: new Date('2025-10-03T12:00:00').getTime() }),
+      ];
+
+      const markdown = formatContextMarkdown(context, jots);
+
+      assert.ok(markdown.startsWith('---\ncontext: "repo/feature-x"\n'));
+      assert.ok(markdown.includes('repository: "git@github.com:acme/repo.git"'));
+      assert.ok(markdown.includes('from: 2025-10-01'));
+      assert.ok(markdown.includes('to: 2025-10-03'));
+      assert.ok(markdown.includes('jots: 2'));
+      assert.ok(markdown.includes('\n# repo/feature-x\n'));
+    });
+
+    it('should group by tag with untagged last', () => {
+      const jots = [
+        makeJot({ id: 1, message: 'no tags' }),
+        makeJot({ id: 2, message: 'a bug', tags: ['bug'] }),
+        makeJot({ id: 3, message: 'an api note', tags: ['api'] }),
+      ];
+
+      const markdown = formatContextMarkdown(context, jots, 'tag');
+
+      const api = markdown.indexOf('## api');
+      const bug = markdown.indexOf('## bug');
+      const untagged = markdown.indexOf('## Untagged');
+      assert.ok(api > 0 && api < bug && bug < untagged);
+    });
+
+    it('should group by day', () => {
+      const jots = [
+        makeJot({ id: 1, createdAt: new Date('2025-10-02T09:00:00').getTime() }),
+        makeJot({ id: 2, createdAt: new Date('2025-10-01T09:00:00').getTime() }),
+      ];
+
+      const markdown = formatContextMarkdown(context, jots, 'day');
+
+      const first = markdown.indexOf('## 2025-10-01');
+      const second = markdown.indexOf('## 2025-10-02');
+      assert.ok(first > 0 && first < second);
+    });
+
+    it('should render todo jots as checklist items', () => {
+      const jots = [
+        makeJot({ id: 1, message: 'write tests', tags: ['todo'] }),
+        makeJot({ id: 2, message: 'plain note', tags: ['notes'] }),
+      ];
+
+      const markdown = formatContextMarkdown(context, jots);
+
+      assert.ok(markdown.includes('- [ ] write tests'));
+      assert.ok(markdown.includes('- plain note'));
+    });
+
+    it('should check off done todo jots', () => {
+      const jots = [makeJot({ message: 'shipped', tags: ['todo'], status: 'done' })];
+
+      const markdown = formatContextMarkdown(context, jots);
+
+      assert.ok(markdown.includes('- [x] shipped'));
+      assert.ok(markdown.includes('status: done'));
+    });
+
+    it('should render metadata as a table', () => {
+      const jots = [makeJot({ metadata: { ticket: 'ABC-1', note: 'a|b' } })];
+
+      const markdown = formatContextMarkdown(context, jots);
+
+      assert.ok(markdown.includes('| Key | Value |'));
+      assert.ok(markdown.includes('| ticket | ABC-1 |'));
+      assert.ok(markdown.includes('| note | a\\|b |'));
+    });
+
+    it('should indent multi-line messages', () => {
+      const jots = [makeJot({ message: 'first line\nsecond line' })];
+
+      const markdown = formatContextMarkdown(context, jots);
+
+      assert.ok(markdown.includes('- first line\n  second line'));
+    });
+
+    it('should handle empty context', () => {
+      const markdown = formatContextMarkdown(context, []);
+
+      assert.ok(markdown.includes('jots: 0'));
+      assert.ok(markdown.includes('_No jots._'));
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import Database from 'better-sqlite3';
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  Migration,
+  getSchemaVersion,
+  runMigrations,
+} from '../src/migrations.js';
+
+describe('Migrations', () => {
+  let testDir: string;
+  let dbPath: string;
+  let counter = 0;
+
+  before(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'jot-test-'));
+  });
+
+  after(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    dbPath = join(testDir, `migrations-${counter++}.db`);
+  });
+
+  it('should migrate a fresh database to the latest version', () => {
+    const db = new Database(dbPath);
+
+    const applied = runMigrations(db);
+
+    assert.strictEqual(applied, MIGRATIONS.length);
+    assert.strictEqual(getSchemaVersion(db), SCHEMA_VERSION);
+
+    db.close();
+  });
+
+  it('should be a no-op when already up to date', () => {
+    const db = new Database(dbPath);
+    runMigrations(db);
+
+    const applied = runMigrations(db);
+
+    assert.strictEqual(applied, 0);
+    assert.strictEqual(getSchemaVersion(db), SCHEMA_VERSION);
+
+    db.close();
+  });
+
+  it('should upgrade an unversioned database without losing data', () => {
+    const db = new Database(dbPath);
+    // Schema as created by releases before migrations existed
+    db.exec(`
+      CREATE TABLE contexts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        repository TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE jots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        context_id INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        FOREIGN KEY (context_id) REFERENCES contexts(id) ON DELETE CASCADE
+      );
+      INSERT INTO contexts (name, created_at, updated_at) VALUES ('legacy', 1, 1);
+      INSERT INTO jots (context_id, message, created_at, updated_at) VALUES (1, 'old note', 1, 1);
+    `);
+    assert.strictEqual(getSchemaVersion(db), 0);
+
+    runMigrations(db);
+
+    assert.strictEqual(getSchemaVersion(db), SCHEMA_VERSION);
+    const row = db.prepare('SELECT message FROM jots WHERE id = 1').get() as any;
+    assert.strictEqual(row.message, 'old note');
+    const hit = db.prepare("SELECT snippet(jots_fts, 0, '[', ']', '', 4) AS s FROM jots_fts WHERE jots_fts MATCH 'old'").get() as any;
+    assert.strictEqual(hit.s, '[old] note');
+
+    db.close();
+  });
+
+  it('should nest existing branch contexts under their repository context', () => {
+    const db = new Database(dbPath);
+    runMigrations(db, MIGRATIONS.filter((m) => m.version < 7));
+    const insert = db.prepare('INSERT INTO contexts (name, created_at, updated_at) VALUES (?, 0, 0)');
+    for (const name of ['repo', 'repo/feature/x', 'repo/fix', 'other']) {
+      insert.run(name);
+    }
+
+    runMigrations(db);
+
+    const parents = db
+      .prepare('SELECT c.name, p.name AS parent FROM contexts c LEFT JOIN contexts p ON p.id = c.parent_id ORDER BY c.id')
+      .all();
+    assert.deepStrictEqual(parents, [
+      { name: 'repo', parent: null },
+      { name: 'repo/feature/x', parent: 'repo' },
+      { name: 'repo/fix', parent: 'repo' },
+      { name: 'other', parent: null },
+    ]);
+
+    db.close();
+  });
+
+  it('should normalise existing tags', () => {
+    const db = new Database(dbPath);
+    runMigrations(db, MIGRATIONS.filter((m) => m.version < 11));
+    db.exec(`
+      INSERT INTO contexts (name, created_at, updated_at) VALUES ('ctx', 0, 0);
+      INSERT INTO jots (context_id, message, created_at, updated_at) VALUES (1, 'note', 0, 0);
+      INSERT INTO tags (jot_id, tag) VALUES (1, 'Bug'), (1, 'bug '), (1, 'Needs  Review'), (1, ' ');
+    `);
+
+    runMigrations(db);
+
+    const tags = db.prepare('SELECT tag FROM tags ORDER BY tag').all();
+    assert.deepStrictEqual(tags, [{ tag: 'bug' }, { tag: 'needs-review' }]);
+
+    db.close();
+  });
+
+  it('should drop the vectors of deleted jots', () => {
+    const db = new Database(dbPath);
+    db.pragma('foreign_keys = ON');
+    runMigrations(db);
+    db.exec(`
+      INSERT INTO contexts (name, created_at, updated_at) VALUES ('ctx', 0, 0);
+      INSERT INTO jots (context_id, message, created_at, updated_at) VALUES (1, 'note', 0, 0);
+      INSERT INTO jot_vectors (jot_id, model, vector) VALUES (1, 'test', x'00000000');
+      DELETE FROM jots;
+    `);
+
+    assert.strictEqual((db.prepare('SELECT COUNT(*) AS count FROM jot_vectors').get() as any).count, 0);
+
+    db.close();
+  });
+
+  it('should refuse a database written by a newer version', () => {
+    const db = new Database(dbPath);
+    db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+
+    assert.throws(() => runMigrations(db), /newer than supported/);
+
+    db.close();
+  });
+
+  it('should apply pending migrations in order', () => {
+    const db = new Database(dbPath);
+    const order: number[] = [];
+    const migrations: Migration[] = [
+      { version: 1, description: 'one', up: () => order.push(1) },
+      { version: 2, description: 'two', up: () => order.push(2) },
+      { version: 3, description: 'three', up: () => order.push(3) },
+    ];
+    db.pragma('user_version = 1');
+
+    const applied = runMigrations(db, migrations);
+
+    assert.strictEqual(applied, 2);
+    assert.deepStrictEqual(order, [2, 3]);
+    assert.strictEqual(getSchemaVersion(db), 3);
+
+    db.close();
+  });
+
+  it('should roll back a failing migration', () => {
+    const db = new Database(dbPath);
+    const migrations: Migration[] = [
+      { version: 1, description: 'create', up: (d) => d.exec('CREATE TABLE a (x INTEGER)') },
+      {
+        version: 2,
+        description: 'broken',
+        up: (d) => {
+          d.exec('CREATE TABLE b (x INTEGER)');
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    assert.throws(() => runMigrations(db, migrations), /boom/);
+
+    assert.strictEqual(getSchemaVersion(db), 1);
+    const b = db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='b'").get();
+    assert.strictEqual(b, undefined, 'partial changes should be rolled back');
+
+    db.close();
+  });
+
+  it('should reject out-of-order migrations', () => {
+    const db = new Database(dbPath);
+    const migrations: Migration[] = [
+      { version: 2, description: 'two', up: () => {} },
+      { version: 1, description: 'one', up: () => {} },
+    ];
+
+    assert.throws(() => runMigrations(db, migrations), /Invalid migration order/);
+
+    db.close();
+  });
+});
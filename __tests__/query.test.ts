@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseQuery } from '../src/query.js';
+
+describe('Query Syntax', () => {
+  it('should quote every term so punctuation is never FTS5 syntax', () => {
+    assert.strictEqual(parseQuery('user-service C++ (beta)').match, '"user-service" "C++" "(beta)"');
+    assert.strictEqual(parseQuery('say "hi"there').match, '"say" "hi" "there"');
+  });
+
+  it('should keep phrases and prefixes', () => {
+    assert.strictEqual(parseQuery('"login flow" deploy*').match, '"login flow" "deploy"*');
+    assert.strictEqual(parseQuery('"auth serv"*').match, '"auth serv"*');
+  });
+
+  it('should translate OR and negation', () => {
+    const parsed = parseQuery('redis OR memcached -legacy NOT "old cache"');
+
+    assert.strictEqual(parsed.match, '"redis" OR "memcached"');
+    assert.strictEqual(parsed.exclude, '"legacy" OR "old cache"');
+  });
+
+  it('should collect the plain words for semantic search', () => {
+    assert.strictEqual(parseQuery('"login flow" OR deploy* -legacy tag:bug').text, 'login flow deploy');
+  });
+
+  it('should ignore dangling operators and empty terms', () => {
+    const parsed = parseQuery('OR * ++ "" fix OR');
+
+    assert.strictEqual(parsed.match, '"fix"');
+    assert.strictEqual(parsed.exclude, null);
+  });
+
+  it('should extract qualifiers', () => {
+    const parsed = parseQuery('tag:bug tag:"needs review" context:api before:2026-01-01 after:2025-12-01 meta:ticket=ABC-1 meta:pr');
+
+    assert.strictEqual(parsed.match, null);
+    assert.deepStrictEqual(parsed.tags, ['bug', 'needs review']);
+    assert.deepStrictEqual(parsed.contexts, ['api']);
+    assert.strictEqual(parsed.before, new Date('2026-01-01').getTime());
+    assert.strictEqual(parsed.after, new Date('2025-12-01').getTime());
+    assert.deepStrictEqual(parsed.metadata, [
+      { key: 'ticket', value: 'ABC-1' },
+      { key: 'pr' },
+    ]);
+  });
+
+  it('should parse metadata prefixes and wildcards', () => {
+    assert.deepStrictEqual(parseQuery('meta:path=src/* meta:pr=*').metadata, [
+      { key: 'path', value: 'src/', prefix: true },
+      { key: 'pr' },
+    ]);
+  });
+
+  it('should collect negated tag qualifiers as excluded tags', () => {
+    const parsed = parseQuery('tag:bug -tag:fixed NOT tag:wontfix');
+
+    assert.deepStrictEqual(parsed.tags, ['bug']);
+    assert.deepStrictEqual(parsed.excludeTags, ['fixed', 'wontfix']);
+  });
+
+  it('should treat quoted qualifiers and unknown prefixes as text', () => {
+    assert.strictEqual(parseQuery('"tag:bug" http://example.com').match, '"tag:bug" "http://example.com"');
+  });
+
+  it('should reject invalid dates and negated non-tag qualifiers', () => {
+    assert.throws(() => parseQuery('before:someday'), /Invalid date in before:someday/);
+    assert.throws(() => parseQuery('-context:api'), /Only tag qualifiers can be negated/);
+  });
+});
@@ -5,6 +5,7 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import { initializeDatabase } from '../src/database.js';
 import { JotRepository } from '../src/repository.js';
+import { HashedNgramEmbedding } from '../src/embeddings.js';
 
 describe('JotRepository', () => {
   let testDir: string;
@@ -27,10 +28,20 @@ describe('JotRepository', () => {
     db.exec('DELETE FROM tags');
     db.exec('DELETE FROM jots');
     db.exec('DELETE FROM contexts');
+    db.exec('DELETE FROM jot_revisions');
     repository = new JotRepository(db);
   });
 
   describe('Context Management', () => {
+    it('should fill in a missing repository URL on upsert', () => {
+      repository.upsertContext('test-context');
+
+      const context = repository.upsertContext('test-context', 'git@github.com:acme/api.git');
+
+      assert.strictEqual(context.repository, 'git@github.com:acme/api.git');
+      assert.strictEqual(repository.upsertContext('test-context', 'other').repository, 'git@github.com:acme/api.git');
+    });
+
     it('should create a new context', () => {
       const context = repository.upsertContext('test-context', 'test-repo');
 
@@ -206,6 +217,43 @@ describe('JotRepository', () => {
       assert.strictEqual(updated!.metadata.key, 'value');
     });
 
+    it('should default new jots to open status', () => {
+      const jot = repository.createJot(contextId, 'test', null, [], {});
+
+      assert.strictEqual(jot.status, 'open');
+      assert.strictEqual(jot.completedAt, null);
+    });
+
+    it('should stamp completion time when closing a jot', () => {
+      const jot = repository.createJot(contextId, 'test', null, [], {});
+
+      const done = repository.updateJot(jot.id, { status: 'done' });
+
+      assert.strictEqual(done!.status, 'done');
+      assert.ok(done!.completedAt);
+    });
+
+    it('should clear completion time when reopening a jot', () => {
+      const jot = repository.createJot(contextId, 'test', null, [], {}, { status: 'dropped' });
+      assert.ok(jot.completedAt);
+
+      const reopened = repository.updateJot(jot.id, { status: 'in-progress' });
+
+      assert.strictEqual(reopened!.status, 'in-progress');
+      assert.strictEqual(reopened!.completedAt, null);
+    });
+
+    it('should update jot priority and pinned', () => {
+      const jot = repository.createJot(contextId, 'test', null, [], {});
+      assert.strictEqual(jot.priority, 'normal');
+      assert.strictEqual(jot.pinned, false);
+
+      const updated = repository.updateJot(jot.id, { priority: 'high', pinned: true });
+
+      assert.strictEqual(updated!.priority, 'high');
+      assert.strictEqual(updated!.pinned, true);
+    });
+
     it('should return null when updating non-existent jot', () => {
       const updated = repository.updateJot(999, { message: 'test' });
 
@@ -222,6 +270,239 @@ describe('JotRepository', () => {
     });
   });
 
+  describe('Context Hierarchy', () => {
+    it('should find the parent of a branch context by name', () => {
+      repository.upsertContext('repo');
+      const feature = repository.upsertContext('repo/feature');
+
+      assert.strictEqual(repository.findParentContext('repo/feature/login')!.id, feature.id);
+      assert.strictEqual(repository.findParentContext('repository'), null);
+    });
+
+    it('should search a context together with its descendants', () => {
+      const repo = repository.upsertContext('repo');
+      const branch = repository.upsertContext('repo/feature', undefined, repo.id);
+      const nested = repository.upsertContext('repo/feature/sub', undefined, branch.id);
+      repository.createJot(repo.id, 'on repo', null, [], {});
+      repository.createJot(nested.id, 'on nested branch', null, [], {});
+
+      assert.strictEqual(repository.searchJots({ contextId: repo.id }).length, 1);
+      assert.strictEqual(repository.searchJots({ contextId: repo.id, includeDescendants: true }).length, 2);
+    });
+
+    it('should rename a context together with its branch contexts', () => {
+      const repo = repository.upsertContext('old-repo');
+      const branch = repository.upsertContext('old-repo/feature', undefined, repo.id);
+      const other = repository.upsertContext('unrelated', undefined, repo.id);
+
+      repository.renameContext(repo.id, 'new-repo');
+
+      assert.strictEqual(repository.getContext(repo.id)!.name, 'new-repo');
+      assert.strictEqual(repository.getContext(branch.id)!.name, 'new-repo/feature');
+      assert.strictEqual(repository.getContext(other.id)!.name, 'unrelated');
+    });
+
+    it('should refuse to rename onto an existing context', () => {
+      const repo = repository.upsertContext('repo');
+      repository.upsertContext('taken');
+
+      assert.throws(() => repository.renameContext(repo.id, 'taken'), /already exists/);
+      assert.strictEqual(repository.getContext(repo.id)!.name, 'repo');
+    });
+
+    it('should merge a context into another', () => {
+      const repo = repository.upsertContext('repo');
+      const branch = repository.upsertContext('repo/feature', undefined, repo.id);
+      const child = repository.upsertContext('repo/feature/sub', undefined, branch.id);
+      repository.createJot(branch.id, 'branch note', null, [], {});
+      const trashed = repository.createJot(branch.id, 'trashed note', null, [], {});
+      repository.deleteJot(trashed.id);
+
+      const moved = repository.mergeContextInto(branch.id, repo.id);
+
+      assert.strictEqual(moved, 1);
+      assert.strictEqual(repository.getContext(branch.id, true), null);
+      assert.strictEqual(repository.getContext(child.id)!.parentId, repo.id);
+      assert.strictEqual(repository.getContext(repo.id)!.jotCount, 1);
+      assert.strictEqual(repository.getJot(trashed.id, true)!.contextId, repo.id);
+    });
+  });
+
+  describe('Context Settings', () => {
+    it('should update description, status and jot defaults', () => {
+      const context = repository.upsertContext('repo');
+
+      const updated = repository.updateContext(context.id, {
+        description: 'Ship the login flow',
+        defaultTtlDays: 0,
+        defaultTags: ['auth'],
+      })!;
+
+      assert.strictEqual(updated.description, 'Ship the login flow');
+      assert.strictEqual(updated.status, 'active');
+      assert.strictEqual(updated.defaultTtlDays, 0);
+      assert.deepStrictEqual(updated.defaultTags, ['auth']);
+    });
+
+    it('should hide archived contexts from the list but keep their jots searchable', () => {
+      const context = repository.upsertContext('old-project');
+      repository.upsertContext('current');
+      repository.createJot(context.id, 'finished work', null, [], {});
+
+      repository.updateContext(context.id, { status: 'archived' });
+
+      assert.deepStrictEqual(repository.listContexts().map((c) => c.name), ['current']);
+      assert.strictEqual(repository.listContexts(true).length, 2);
+      assert.strictEqual(repository.searchJots({ query: 'finished' }).length, 1);
+    });
+  });
+
+  describe('Trash', () => {
+    let contextId: number;
+
+    beforeEach(() => {
+      const context = repository.upsertContext('test-context');
+      contextId = context.id;
+    });
+
+    it('should move deleted jots to the trash', () => {
+      const jot = repository.createJot(contextId, 'trashed', null, [], {});
+      repository.createJot(contextId, 'kept', null, [], {});
+
+      repository.deleteJot(jot.id);
+
+      assert.strictEqual(repository.getJot(jot.id), null);
+      assert.ok(repository.getJot(jot.id, true)!.deletedAt);
+      assert.deepStrictEqual(repository.searchJots({}).map((j) => j.message), ['kept']);
+      assert.deepStrictEqual(repository.searchJots({ trash: true }).map((j) => j.message), ['trashed']);
+      assert.strictEqual(repository.getContext(contextId)!.jotCount, 1);
+    });
+
+    it('should restore a jot from the trash', () => {
+      const jot = repository.createJot(contextId, 'oops', null, [], {});
+      repository.deleteJot(jot.id);
+
+      const restored = repository.restoreJot(jot.id);
+
+      assert.ok(restored);
+      assert.strictEqual(restored!.deletedAt, null);
+      assert.strictEqual(repository.searchJots({ trash: true }).length, 0);
+    });
+
+    it('should return null when restoring a jot not in the trash', () => {
+      const jot = repository.createJot(contextId, 'alive', null, [], {});
+
+      assert.strictEqual(repository.restoreJot(jot.id), null);
+    });
+
+    it('should restore a context with the jots deleted along with it', () => {
+      const earlier = repository.createJot(contextId, 'deleted earlier', null, [], {});
+      repository.createJot(contextId, 'deleted with context', null, [], {});
+      repository.deleteJot(earlier.id);
+      const jotDeletedAt = repository.getJot(earlier.id, true)!.deletedAt!;
+      while (Date.now() <= jotDeletedAt) {
+        // Wait for the clock to tick so the context gets a later deletion time
+      }
+      repository.deleteContext(contextId);
+
+      assert.strictEqual(repository.listContexts().length, 0);
+      assert.ok(repository.restoreContext(contextId));
+
+      assert.deepStrictEqual(
+        repository.searchJots({ contextId }).map((j) => j.message),
+        ['deleted with context']
+      );
+    });
+
+    it('should revive a trashed context on upsert without its jots', () => {
+      repository.createJot(contextId, 'old', null, [], {});
+      repository.deleteContext(contextId);
+
+      const revived = repository.upsertContext('test-context');
+
+      assert.strictEqual(revived.id, contextId);
+      assert.strictEqual(revived.deletedAt, null);
+      assert.strictEqual(revived.jotCount, 0);
+    });
+
+    it('should purge trash older than the cutoff', () => {
+      const jot = repository.createJot(contextId, 'gone', null, [], {});
+      const other = repository.upsertContext('other');
+      repository.deleteJot(jot.id);
+      repository.deleteContext(other.id);
+
+      const purged = repository.purgeTrash(Date.now() + 1);
+
+      assert.strictEqual(purged, 2);
+      assert.strictEqual(repository.getJot(jot.id, true), null);
+      assert.strictEqual(repository.getContext(other.id, true), null);
+    });
+
+    it('should keep recent trash when purging', () => {
+      const jot = repository.createJot(contextId, 'recent', null, [], {});
+      repository.deleteJot(jot.id);
+
+      const purged = repository.purgeTrash(Date.now() - 60000);
+
+      assert.strictEqual(purged, 0);
+      assert.ok(repository.getJot(jot.id, true));
+    });
+  });
+
+  describe('Revisions', () => {
+    let contextId: number;
+
+    beforeEach(() => {
+      const context = repository.upsertContext('test-context');
+      contextId = context.id;
+    });
+
+    it('should record previous version on update', () => {
+      const jot = repository.createJot(contextId, 'original', null, ['a'], {});
+
+      repository.updateJot(jot.id, { message: 'changed' }, 'jot:update');
+
+      const revisions = repository.getRevisions(jot.id);
+      assert.strictEqual(revisions.length, 1);
+      assert.strictEqual(revisions[0].action, 'update');
+      assert.strictEqual(revisions[0].source, 'jot:update');
+      assert.strictEqual(revisions[0].snapshot.message, 'original');
+      assert.deepStrictEqual(revisions[0].snapshot.tags, ['a']);
+    });
+
+    it('should not record a revision for empty updates', () => {
+      const jot = repository.createJot(contextId, 'original', null, [], {});
+
+      repository.updateJot(jot.id, {});
+
+      assert.strictEqual(repository.getRevisions(jot.id).length, 0);
+    });
+
+    it('should keep history after deletion', () => {
+      const jot = repository.createJot(contextId, 'doomed', null, [], {});
+
+      repository.deleteJot(jot.id, 'jot:delete');
+
+      const revisions = repository.getRevisions(jot.id);
+      assert.strictEqual(revisions.length, 1);
+      assert.strictEqual(revisions[0].action, 'delete');
+      assert.strictEqual(revisions[0].snapshot.message, 'doomed');
+    });
+
+    it('should find the last deletion that was not restored', () => {
+      const first = repository.createJot(contextId, 'first', null, [], {});
+      const second = repository.createJot(contextId, 'second', null, [], {});
+      repository.deleteJot(first.id);
+      repository.deleteJot(second.id);
+
+      assert.strictEqual(repository.getLastDeletion()!.jotId, second.id);
+
+      repository.restoreJot(second.id);
+
+      assert.strictEqual(repository.getLastDeletion()!.jotId, first.id);
+    });
+  });
+
   describe('Search', () => {
     let contextId: number;
 
@@ -262,6 +543,158 @@ describe('JotRepository', () => {
       assert.strictEqual(results.length, 2);
     });
 
+    it('should require all tags and skip excluded ones', () => {
+      repository.createJot(contextId, 'prod bug', null, ['bug', 'prod'], {});
+      repository.createJot(contextId, 'fixed prod bug', null, ['bug', 'prod', 'fixed'], {});
+      repository.createJot(contextId, 'staging bug', null, ['bug', 'staging'], {});
+
+      const results = repository.searchJots({ tags: ['bug', 'prod'], tagMode: 'all', excludeTags: ['fixed'] });
+      const excluded = repository.searchJots({ query: 'bug tag:prod -tag:fixed' });
+
+      assert.deepStrictEqual(results.map((j) => j.message), ['prod bug']);
+      assert.deepStrictEqual(excluded.map((j) => j.message), ['prod bug']);
+    });
+
+    it('should match child tags of a hierarchical tag', () => {
+      repository.createJot(contextId, 'index', null, ['area/db'], {});
+      repository.createJot(contextId, 'query', null, ['area/db/query'], {});
+      repository.createJot(contextId, 'other', null, ['areas'], {});
+
+      assert.strictEqual(repository.searchJots({ tags: ['area'] }).length, 2);
+      assert.strictEqual(repository.searchJots({ tags: ['area/db/query'] }).length, 1);
+      assert.strictEqual(repository.searchJots({ excludeTags: ['area'] }).length, 1);
+    });
+
+    it('should filter by metadata value, prefix and key', () => {
+      repository.createJot(contextId, 'review', null, [], { pr: '412', path: 'src/api/auth.ts' });
+      repository.createJot(contextId, 'followup', null, [], { pr: '4120', path: 'docs/auth.md' });
+      repository.createJot(contextId, 'plain', null, [], {});
+
+      const search = (metadata: { key: string; value?: string; prefix?: boolean }[]) =>
+        repository.searchJots({ metadata }).map((j) => j.message).sort();
+
+      assert.deepStrictEqual(search([{ key: 'pr', value: '412' }]), ['review']);
+      assert.deepStrictEqual(search([{ key: 'path', value: 'src/', prefix: true }]), ['review']);
+      assert.deepStrictEqual(search([{ key: 'pr' }]), ['followup', 'review']);
+      assert.deepStrictEqual(search([{ key: 'pr' }, { key: 'path', value: 'docs/', prefix: true }]), ['followup']);
+    });
+
+    it('should count metadata keys and values of live jots', () => {
+      const other = repository.upsertContext('other');
+      repository.createJot(contextId, 'a', null, [], { pr: '412', ticket: 'ABC-1' });
+      repository.createJot(contextId, 'b', null, [], { pr: '412' });
+      repository.createJot(other.id, 'c', null, [], { pr: '99' });
+      const trashed = repository.createJot(contextId, 'd', null, [], { pr: '7' });
+      repository.deleteJot(trashed.id);
+
+      assert.deepStrictEqual(repository.countMetadata(), [
+        { name: 'pr', jotCount: 3 },
+        { name: 'ticket', jotCount: 1 },
+      ]);
+      assert.deepStrictEqual(repository.countMetadata('pr'), [
+        { name: '412', jotCount: 2 },
+        { name: '99', jotCount: 1 },
+      ]);
+      assert.deepStrictEqual(repository.countMetadata('pr', other.id), [{ name: '99', jotCount: 1 }]);
+    });
+
+    it('should filter by status', () => {
+      repository.createJot(contextId, 'open', null, [], {});
+      repository.createJot(contextId, 'doing', null, [], {}, { status: 'in-progress' });
+      repository.createJot(contextId, 'finished', null, [], {}, { status: 'done' });
+
+      const results = repository.searchJots({ status: ['open', 'in-progress'] });
+
+      assert.strictEqual(results.length, 2);
+      assert.ok(results.every((j) => j.status !== 'done'));
+    });
+
+    it('should filter by priority and pinned', () => {
+      repository.createJot(contextId, 'normal', null, [], {});
+      repository.createJot(contextId, 'urgent', null, [], {}, { priority: 'critical' });
+      repository.createJot(contextId, 'sticky', null, [], {}, { pinned: true });
+
+      const critical = repository.searchJots({ priority: ['critical', 'high'] });
+      const pinned = repository.searchJots({ pinned: true });
+
+      assert.deepStrictEqual(critical.map((j) => j.message), ['urgent']);
+      assert.deepStrictEqual(pinned.map((j) => j.message), ['sticky']);
+    });
+
+    it('should order pinned, then priority, then newest', () => {
+      const base = Date.now() - 10000;
+      repository.createJot(contextId, 'old high', null, [], {}, { priority: 'high', createdAt: base });
+      repository.createJot(contextId, 'old pinned low', null, [], {}, {
+        pinned: true,
+        priority: 'low',
+        createdAt: base + 1,
+      });
+      repository.createJot(contextId, 'new normal', null, [], {}, { createdAt: base + 2 });
+      repository.createJot(contextId, 'newer normal', null, [], {}, { createdAt: base + 3 });
+
+      const results = repository.searchJots({ contextId });
+
+      assert.deepStrictEqual(
+        results.map((j) => j.message),
+        ['old pinned low', 'old high', 'newer normal', 'new normal']
+      );
+    });
+
+    it('should rank full-text matches by relevance with snippets', () => {
+      repository.createJot(contextId, 'cache cache cache eviction', null, [], {});
+      repository.createJot(contextId, 'notes about the deploy and one cache', null, ['ops'], {}, { pinned: true });
+
+      const results = repository.searchJots({ query: 'cache' });
+
+      assert.deepStrictEqual(results.map((j) => j.message), [
+        'cache cache cache eviction',
+        'notes about the deploy and one cache',
+      ]);
+      assert.strictEqual(results[0].snippet, '**cache** **cache** **cache** eviction');
+      assert.strictEqual(repository.searchJots({ contextId })[0].snippet, undefined);
+    });
+
+    it('should search text with FTS5 punctuation safely', () => {
+      repository.createJot(contextId, 'user-service times out', null, [], {});
+      repository.createJot(contextId, 'port the parser to C++', null, [], {});
+      repository.createJot(contextId, 'legacy user-service notes', null, [], {});
+
+      assert.strictEqual(repository.searchJots({ query: 'user-service -legacy' }).length, 1);
+      assert.strictEqual(repository.searchJots({ query: 'C++ OR "times out"' }).length, 2);
+      assert.strictEqual(repository.searchJots({ query: 'pars*' }).length, 1);
+      assert.strictEqual(repository.searchJots({ query: '(unbalanced "quote' }).length, 0);
+    });
+
+    it('should apply query qualifiers as filters', () => {
+      const other = repository.upsertContext('api');
+      repository.createJot(contextId, 'fix login', null, ['bug'], { ticket: 'ABC-1' });
+      repository.createJot(other.id, 'fix signup', null, ['bug'], { ticket: 'ABC-2' });
+      repository.createJot(other.id, 'old fix', null, ['bug'], {}, { createdAt: new Date('2025-06-01').getTime() });
+
+      const search = (query: string) => repository.searchJots({ query }).map((j) => j.message).sort();
+
+      assert.deepStrictEqual(search('fix tag:bug context:api'), ['fix signup', 'old fix']);
+      assert.deepStrictEqual(search('meta:ticket=ABC-1'), ['fix login']);
+      assert.deepStrictEqual(search('meta:ticket'), ['fix login', 'fix signup']);
+      assert.deepStrictEqual(search('tag:bug before:2026-01-01'), ['old fix']);
+      assert.deepStrictEqual(search('-old after:2025-07-01'), ['fix login', 'fix signup']);
+    });
+
+    it('should order by expiration or update time', () => {
+      const now = Date.now();
+      repository.createJot(contextId, 'permanent', null, [], {});
+      repository.createJot(contextId, 'later', now + 20000, [], {});
+      const soon = repository.createJot(contextId, 'soon', now + 10000, [], {});
+
+      assert.deepStrictEqual(
+        repository.searchJots({ contextId, orderBy: 'expires' }).map((j) => j.message),
+        ['soon', 'later', 'permanent']
+      );
+
+      repository.updateJot(soon.id, { message: 'soon, edited' });
+      assert.strictEqual(repository.searchJots({ contextId, orderBy: 'updated' })[0].id, soon.id);
+    });
+
     it('should filter by date range', () => {
       const now = Date.now();
       const yesterday = now - 24 * 60 * 60 * 1000;
@@ -311,6 +744,283 @@ describe('JotRepository', () => {
     });
   });
 
+  describe('Links', () => {
+    let contextId: number;
+
+    beforeEach(() => {
+      contextId = repository.upsertContext('test-context').id;
+    });
+
+    it('should load links in both directions', () => {
+      const old = repository.createJot(contextId, 'use redis', null, [], {});
+      const current = repository.createJot(contextId, 'use memcached', null, [], {});
+
+      assert.strictEqual(repository.linkJots(current.id, old.id, 'supersedes'), true);
+      assert.strictEqual(repository.linkJots(current.id, old.id, 'supersedes'), false);
+
+      assert.deepStrictEqual(repository.getJot(current.id)!.links, [
+        { jotId: old.id, relation: 'supersedes', direction: 'outgoing' },
+      ]);
+      assert.deepStrictEqual(repository.getJot(old.id)!.links, [
+        { jotId: current.id, relation: 'supersedes', direction: 'incoming' },
+      ]);
+    });
+
+    it('should unlink in either direction', () => {
+      const a = repository.createJot(contextId, 'a', null, [], {});
+      const b = repository.createJot(contextId, 'b', null, [], {});
+      repository.linkJots(a.id, b.id, 'blocks');
+      repository.linkJots(b.id, a.id, 'relates-to');
+
+      assert.strictEqual(repository.unlinkJots(b.id, a.id, 'blocks'), 1);
+      assert.strictEqual(repository.unlinkJots(b.id, a.id), 1);
+      assert.deepStrictEqual(repository.getJot(a.id)!.links, []);
+    });
+
+    it('should hide links to trashed jots and drop them when jots are purged', () => {
+      const a = repository.createJot(contextId, 'a', null, [], {});
+      const b = repository.createJot(contextId, 'b', null, [], {});
+      repository.linkJots(a.id, b.id, 'follow-up');
+
+      repository.deleteJot(b.id);
+      assert.deepStrictEqual(repository.getJot(a.id)!.links, []);
+
+      repository.restoreJot(b.id);
+      assert.strictEqual(repository.getJot(a.id)!.links.length, 1);
+
+      repository.deleteJot(b.id);
+      repository.purgeTrash(Date.now() + 1);
+      assert.strictEqual(repository.unlinkJots(a.id, b.id), 0);
+    });
+  });
+
+  describe('Child Jots', () => {
+    let contextId: number;
+
+    beforeEach(() => {
+      contextId = repository.upsertContext('test-context').id;
+    });
+
+    it('should roll up child completion and list top-level jots only when asked', () => {
+      const parent = repository.createJot(contextId, 'release 1.2', null, [], {});
+      repository.createJot(contextId, 'tag the release', null, [], {}, { parentId: parent.id, status: 'done' });
+      const step = repository.createJot(contextId, 'publish notes', null, [], {}, { parentId: parent.id });
+
+      assert.deepStrictEqual(repository.getJot(parent.id)!.progress, { closed: 1, total: 2 });
+      assert.strictEqual(repository.getJot(step.id)!.progress, undefined);
+      assert.deepStrictEqual(repository.getChildren(parent.id).map((j) => j.message), ['tag the release', 'publish notes']);
+      assert.deepStrictEqual(repository.searchJots({ contextId, topLevel: true }).map((j) => j.id), [parent.id]);
+      assert.strictEqual(repository.searchJots({ contextId }).length, 3);
+    });
+
+    it('should make children top-level when their parent is purged', () => {
+      const parent = repository.createJot(contextId, 'parent', null, [], {});
+      const child = repository.createJot(contextId, 'child', null, [], {}, { parentId: parent.id });
+
+      repository.deleteJot(parent.id);
+      repository.purgeTrash(Date.now() + 1);
+
+      assert.strictEqual(repository.getJot(child.id)!.parentId, null);
+    });
+  });
+
+  describe('Code Anchors', () => {
+    let contextId: number;
+
+    beforeEach(() => {
+      contextId = repository.upsertContext('test-context').id;
+    });
+
+    it('should store anchors in canonical form and replace them on update', () => {
+      const jot = repository.createJot(contextId, 'flush before shutdown', null, [], {}, {
+        anchors: [{ path: './src\\worker.ts', startLine: 40, endLine: 52, symbol: 'flushQueue', commit: 'ABC1234' }],
+      });
+
+      assert.deepStrictEqual(repository.getJot(jot.id)!.anchors, [
+        { path: 'src/worker.ts', startLine: 40, endLine: 52, symbol: 'flushQueue', commit: 'abc1234' },
+      ]);
+
+      repository.updateJot(jot.id, { anchors: [{ path: 'src/queue.ts', startLine: 7 }] });
+      assert.deepStrictEqual(repository.getJot(jot.id)!.anchors, [{ path: 'src/queue.ts', startLine: 7, endLine: 7 }]);
+    });
+
+    it('should filter by file and by directory', () => {
+      const worker = repository.createJot(contextId, 'worker', null, [], {}, { anchors: [{ path: 'src/worker.ts' }] });
+      const api = repository.createJot(contextId, 'api', null, [], {}, { anchors: [{ path: 'src/api/routes.ts' }] });
+      repository.createJot(contextId, 'unanchored', null, [], {});
+      repository.createJot(contextId, 'sibling', null, [], {}, { anchors: [{ path: 'srcs/other.ts' }] });
+
+      assert.deepStrictEqual(repository.searchJots({ path: 'src/worker.ts' }).map((j) => j.id), [worker.id]);
+      assert.deepStrictEqual(
+        repository.searchJots({ path: 'src/', orderBy: 'created' }).map((j) => j.id).sort(),
+        [worker.id, api.id].sort()
+      );
+    });
+
+    it('should find jots for a path by anchor or by mention', () => {
+      const anchored = repository.createJot(contextId, 'retry limit', null, [], {}, { anchors: [{ path: 'src/worker.ts' }] });
+      const mentioned = repository.createJot(contextId, 'src/worker.ts leaks handles', null, [], {});
+      const trashed = repository.createJot(contextId, 'old note', null, [], {}, { anchors: [{ path: 'src/worker.ts' }] });
+      repository.deleteJot(trashed.id);
+      repository.createJot(contextId, 'unrelated', null, [], {}, { anchors: [{ path: 'src/api.ts' }] });
+
+      assert.deepStrictEqual(
+        repository.getJotsForPath('./src/worker.ts').map((j) => j.id).sort(),
+        [anchored.id, mentioned.id].sort()
+      );
+      assert.strictEqual(repository.getJotsForPath('src/worker.ts', contextId + 1).length, 0);
+    });
+
+    it('should not take words that contain a path for mentions', () => {
+      const mentioned = repository.createJot(contextId, 'the api returns 500', null, [], {});
+      repository.createJot(contextId, 'a rapid fix for the description', null, [], {});
+      const anchored = repository.createJot(contextId, 'rapid', null, [], {}, { anchors: [{ path: 'api/routes.ts' }] });
+
+      assert.deepStrictEqual(
+        repository.getJotsForPath('api').map((j) => j.id).sort(),
+        [mentioned.id, anchored.id].sort()
+      );
+      assert.strictEqual(repository.getJotsForPath('api', undefined, 1).length, 1);
+    });
+  });
+
+  describe('Semantic Search', () => {
+    let db: ReturnType<typeof initializeDatabase>;
+    let semantic: JotRepository;
+    let contextId: number;
+
+    beforeEach(() => {
+      db = initializeDatabase(dbPath);
+      semantic = new JotRepository(db, new HashedNgramEmbedding());
+      contextId = semantic.upsertContext('test-context').id;
+    });
+
+    const vectorCount = () => (db.prepare('SELECT COUNT(*) AS count FROM jot_vectors').get() as any).count;
+
+    it('should find jots with related word forms', () => {
+      semantic.createJot(contextId, 'Renewal of the TLS certificate is due next month', null, [], {});
+      semantic.createJot(contextId, 'Refactor the login form validation', null, [], {});
+
+      assert.strictEqual(semantic.searchJots({ query: 'renew certificate' }).length, 0);
+      assert.deepStrictEqual(
+        semantic.searchJots({ query: 'renew certificate', mode: 'semantic' }).map((j) => j.message),
+        ['Renewal of the TLS certificate is due next month']
+      );
+    });
+
+    it('should keep vectors in sync with jots', () => {
+      const jot = semantic.createJot(contextId, 'migrate the user table', null, [], {});
+      assert.strictEqual(vectorCount(), 1);
+
+      semantic.updateJot(jot.id, { message: 'rotate the signing keys' });
+      assert.strictEqual(semantic.searchJots({ query: 'migration', mode: 'semantic' }).length, 0);
+      assert.strictEqual(semantic.searchJots({ query: 'rotating keys', mode: 'semantic' }).length, 1);
+
+      semantic.deleteJot(jot.id);
+      semantic.purgeTrash(Date.now() + 1);
+      assert.strictEqual(vectorCount(), 0);
+    });
+
+    it('should embed jots written without a provider on the next search', () => {
+      repository.createJot(contextId, 'deploy the api to staging', null, [], {});
+      assert.strictEqual(vectorCount(), 0);
+
+      assert.strictEqual(semantic.searchJots({ query: 'deployment staging', mode: 'semantic' }).length, 1);
+      assert.strictEqual(vectorCount(), 1);
+      assert.strictEqual(semantic.indexVectors(), 0);
+    });
+
+    it('should blend keyword and semantic scores in hybrid mode', () => {
+      semantic.createJot(contextId, 'certificates expire soon, renew them', null, [], {});
+      semantic.createJot(contextId, 'certificate renewal for the TLS endpoint', null, ['ops'], {});
+      semantic.createJot(contextId, 'Fix flaky test in CI pipeline', null, [], {});
+
+      const results = semantic.searchJots({ query: 'certificate renewal', mode: 'hybrid' });
+
+      assert.deepStrictEqual(results.map((j) => j.message), [
+        'certificate renewal for the TLS endpoint',
+        'certificates expire soon, renew them',
+      ]);
+      assert.strictEqual(results[0].snippet, '**certificate** **renewal** for the TLS endpoint');
+      assert.strictEqual(semantic.searchJots({ query: 'certificate renewal -expire tag:ops', mode: 'hybrid' }).length, 1);
+    });
+
+    it('should reject semantic search without a provider', () => {
+      assert.throws(() => repository.searchJots({ query: 'anything', mode: 'semantic' }), /Semantic search is disabled/);
+    });
+  });
+
+  describe('Tags', () => {
+    let contextId: number;
+
+    beforeEach(() => {
+      contextId = repository.upsertContext('test-context').id;
+    });
+
+    it('should normalise tags on write and in filters', () => {
+      const jot = repository.createJot(contextId, 'note', null, ['Bug', ' bug', 'Needs Review', 'Area / DB', ''], {});
+      const updated = repository.updateJot(jot.id, { tags: ['PROD', 'prod '] })!;
+
+      assert.deepStrictEqual(jot.tags.sort(), ['area/db', 'bug', 'needs-review']);
+      assert.deepStrictEqual(updated.tags, ['prod']);
+      assert.strictEqual(repository.searchJots({ tags: [' Prod'] }).length, 1);
+    });
+
+    it('should count tags of live jots', () => {
+      const other = repository.upsertContext('other');
+      repository.createJot(contextId, 'a', null, ['bug', 'prod'], {});
+      repository.createJot(contextId, 'b', null, ['bug'], {});
+      repository.createJot(other.id, 'c', null, ['bug'], {});
+      const trashed = repository.createJot(contextId, 'd', null, ['old'], {});
+      repository.deleteJot(trashed.id);
+
+      assert.deepStrictEqual(repository.countTags(), [
+        { name: 'bug', jotCount: 3 },
+        { name: 'prod', jotCount: 1 },
+      ]);
+      assert.deepStrictEqual(repository.countTags(other.id), [{ name: 'bug', jotCount: 1 }]);
+    });
+
+    it('should rename a tag with its child tags, merging into an existing tag', () => {
+      const both = repository.createJot(contextId, 'both', null, ['bugs', 'bug'], {});
+      const child = repository.createJot(contextId, 'child', null, ['bugs/ui'], {});
+      repository.createJot(contextId, 'unrelated', null, ['bugsy'], {});
+
+      const changed = repository.renameTag('bugs', 'bug');
+
+      assert.strictEqual(changed, 2);
+      assert.deepStrictEqual(repository.getJot(both.id)!.tags, ['bug']);
+      assert.deepStrictEqual(repository.getJot(child.id)!.tags, ['bug/ui']);
+      assert.deepStrictEqual(repository.countTags().map((t) => t.name), ['bug', 'bug/ui', 'bugsy']);
+    });
+
+    it('should delete a tag with its child tags', () => {
+      repository.createJot(contextId, 'a', null, ['wip', 'keep'], {});
+      repository.createJot(contextId, 'b', null, ['wip/draft'], {});
+
+      assert.strictEqual(repository.deleteTag('wip'), 2);
+      assert.deepStrictEqual(repository.countTags().map((t) => t.name), ['keep']);
+    });
+
+    it('should record a revision of every jot a tag rename or delete changes', () => {
+      const jot = repository.createJot(contextId, 'note', null, ['bug'], {}, { createdAt: 1, updatedAt: 1 });
+      repository.createJot(contextId, 'other', null, ['keep'], {});
+
+      repository.renameTag('bug', 'defect');
+      repository.deleteTag('defect');
+
+      const revisions = repository.getRevisions(jot.id);
+      assert.deepStrictEqual(
+        revisions.map((r) => [r.source, r.snapshot.tags]),
+        [
+          ['tags:delete', ['defect']],
+          ['tags:rename', ['bug']],
+        ]
+      );
+      assert.ok(repository.getJot(jot.id)!.updatedAt > 1);
+    });
+  });
+
   describe('Expiration', () => {
     let contextId: number;
 
@@ -346,5 +1056,44 @@ describe('JotRepository', () => {
       assert.strictEqual(expiring.length, 1);
       assert.strictEqual(expiring[0].message, 'expiring-soon');
     });
+
+    it('should archive expired jots and keep them searchable', () => {
+      repository.createJot(contextId, 'expired', Date.now() - 1000, [], {});
+      repository.createJot(contextId, 'active', Date.now() + 1000000, [], {});
+
+      const archived = repository.archiveExpiredJots();
+
+      assert.strictEqual(archived, 1);
+      assert.strictEqual(repository.searchJots({ contextId }).length, 1);
+      const inArchive = repository.searchJots({ contextId, archived: true });
+      assert.strictEqual(inArchive.length, 1);
+      assert.strictEqual(inArchive[0].message, 'expired');
+      assert.ok(inArchive[0].archivedAt);
+      assert.strictEqual(repository.getContext(contextId)!.jotCount, 1);
+    });
+
+    it('should bring an archived jot back when its expiration changes', () => {
+      const jot = repository.createJot(contextId, 'expired', Date.now() - 1000, [], {});
+      repository.archiveExpiredJots();
+
+      const renewed = repository.updateJot(jot.id, { expiresAt: null });
+
+      assert.strictEqual(renewed!.archivedAt, null);
+      assert.strictEqual(repository.searchJots({ contextId, archived: true }).length, 0);
+      assert.strictEqual(repository.searchJots({ contextId }).length, 1);
+    });
+
+    it('should limit jots expiring soon to a context', () => {
+      const other = repository.upsertContext('other-context');
+      const soon = Date.now() + 2 * 24 * 60 * 60 * 1000;
+
+      repository.createJot(contextId, 'mine', soon, [], {});
+      repository.createJot(other.id, 'theirs', soon, [], {});
+
+      const expiring = repository.getExpiringSoon(3, contextId);
+
+      assert.strictEqual(expiring.length, 1);
+      assert.strictEqual(expiring[0].message, 'mine');
+    });
   });
 });
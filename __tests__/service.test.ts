@@ -1,15 +1,18 @@
 import { describe, it, before, after, beforeEach } from 'node:test';
 import assert from 'node:assert';
-import { mkdtempSync, rmSync } from 'fs';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { initializeDatabase } from '../src/database.js';
 import { JotRepository } from '../src/repository.js';
 import { JotService } from '../src/service.js';
+import { DEFAULT_CONFIG, loadConfig } from '../src/config.js';
+import { DEFAULT_STRATEGIES } from '../src/context-detection.js';
 
 describe('JotService', () => {
   let testDir: string;
   let dbPath: string;
+  let repository: JotRepository;
   let service: JotService;
 
   before(() => {
@@ -28,7 +31,8 @@ describe('JotService', () => {
     db.exec('DELETE FROM tags');
     db.exec('DELETE FROM jots');
     db.exec('DELETE FROM contexts');
-    const repository = new JotRepository(db);
+    db.exec('DELETE FROM jot_revisions');
+    repository = new JotRepository(db);
     service = new JotService(repository);
   });
 
@@ -80,6 +84,13 @@ describe('JotService', () => {
       assert.ok(jot.tags.includes('urgent'));
     });
 
+    it('should create pinned jot with priority', () => {
+      const jot = service.createJot({ message: 'test', priority: 'critical', pinned: true });
+
+      assert.strictEqual(jot.priority, 'critical');
+      assert.strictEqual(jot.pinned, true);
+    });
+
     it('should create jot with metadata', () => {
       const jot = service.createJot({
         message: 'test',
@@ -91,6 +102,91 @@ describe('JotService', () => {
     });
   });
 
+  describe('Configuration', () => {
+    it('should apply configured default tags and TTL to new jots', () => {
+      const configured = new JotService(repository, {
+        ...DEFAULT_CONFIG,
+        defaultTtlDays: 0,
+        defaultTags: ['team'],
+      });
+
+      const jot = configured.createJot({ message: 'test', contextName: 'ctx', tags: ['team', 'bug'] });
+
+      assert.deepStrictEqual(jot.tags.sort(), ['bug', 'team']);
+      assert.strictEqual(jot.expiresAt, null);
+    });
+
+    it('should read repository settings from the client workspace', () => {
+      const workspace = join(testDir, 'configured');
+      mkdirSync(join(workspace, '.git'), { recursive: true });
+      writeFileSync(join(workspace, '.jot.json'), JSON.stringify({ defaultTags: ['client'], defaultTtlDays: 0 }));
+      const env = { XDG_CONFIG_HOME: testDir };
+      const configured = new JotService(repository, loadConfig(testDir, env), DEFAULT_STRATEGIES, (dir) =>
+        loadConfig(dir, env)
+      );
+
+      const fromCwd = configured.createJot({ message: 'from cwd', contextName: 'ctx', cwd: workspace });
+      const fromServer = configured.createJot({ message: 'from server', contextName: 'ctx' });
+      configured.setWorkspaceRoot(workspace);
+      const fromRoot = configured.createJot({ message: 'from root', contextName: 'ctx' });
+
+      assert.deepStrictEqual(fromCwd.tags, ['client']);
+      assert.strictEqual(fromCwd.expiresAt, null);
+      assert.deepStrictEqual(fromServer.tags, []);
+      assert.notStrictEqual(fromServer.expiresAt, null);
+      assert.deepStrictEqual(fromRoot.tags, ['client']);
+    });
+  });
+
+  describe('Context Detection', () => {
+    const detectingFrom = (owner: string) =>
+      new JotService(repository, DEFAULT_CONFIG, [
+        () => ({
+          name: 'api',
+          repository: `git@github.com:${owner}/api.git`,
+          qualifiedName: `${owner}/api`,
+        }),
+      ]);
+
+    it('should store the repository URL on detected contexts', () => {
+      const jot = detectingFrom('acme').createJot({ message: 'test' });
+
+      assert.strictEqual(service.getContext(jot.contextId)!.repository, 'git@github.com:acme/api.git');
+    });
+
+    it('should detect the context from the given working directory', () => {
+      const workspace = join(testDir, 'workspace');
+      mkdirSync(workspace, { recursive: true });
+      writeFileSync(join(workspace, '.jot-context'), 'client-project\n');
+
+      const jot = service.createJot({ message: 'test', cwd: workspace });
+
+      assert.strictEqual(service.getContext(jot.contextId)!.name, 'client-project');
+      assert.notStrictEqual(service.detectCurrentContext(), 'client-project');
+      service.setWorkspaceRoot(workspace);
+      assert.strictEqual(service.detectCurrentContext(), 'client-project');
+    });
+
+    it('should create detected branch contexts under their repository context', () => {
+      const detecting = new JotService(repository, DEFAULT_CONFIG, [
+        () => ({ name: 'api/feature', repository: null, parentName: 'api' }),
+      ]);
+
+      const jot = detecting.createJot({ message: 'test' });
+
+      const context = service.getContext(jot.contextId)!;
+      assert.strictEqual(service.getContext(context.parentId!)!.name, 'api');
+    });
+
+    it('should use owner/repo when the name belongs to another repository', () => {
+      detectingFrom('acme').createJot({ message: 'first' });
+
+      const jot = detectingFrom('other').createJot({ message: 'second' });
+
+      assert.strictEqual(service.getContext(jot.contextId)!.name, 'other/api');
+    });
+  });
+
   describe('Context Management', () => {
     it('should list contexts', () => {
       service.createJot({ message: 'msg1', contextName: 'context1' });
@@ -125,6 +221,375 @@ describe('JotService', () => {
 
       assert.ok(deleted);
     });
+
+    it('should restore a deleted context by name', () => {
+      service.createJot({ message: 'test', contextName: 'my-context' });
+      service.deleteContext('my-context');
+
+      const restored = service.restoreContext('my-context');
+
+      assert.ok(restored);
+      assert.strictEqual(service.getContextJots('my-context').length, 1);
+    });
+  });
+
+  describe('Context Hierarchy', () => {
+    it('should nest named branch contexts under an existing repository context', () => {
+      const parent = service.createJot({ message: 'repo note', contextName: 'repo' });
+
+      const jot = service.createJot({ message: 'branch note', contextName: 'repo/feature' });
+
+      assert.strictEqual(service.getContext(jot.contextId)!.parentId, parent.contextId);
+      assert.strictEqual(service.getContextJots('repo', undefined, true).length, 2);
+    });
+
+    it('should merge a branch context into its parent', () => {
+      service.createJot({ message: 'repo note', contextName: 'repo' });
+      service.createJot({ message: 'branch note', contextName: 'repo/feature' });
+
+      const { target, moved } = service.mergeIntoParent('repo/feature');
+
+      assert.strictEqual(target.name, 'repo');
+      assert.strictEqual(moved, 1);
+      assert.strictEqual(target.jotCount, 2);
+      assert.strictEqual(service.getContext('repo/feature'), null);
+    });
+
+    it('should merge a context into any target, folding duplicate jots', () => {
+      const kept = service.createJot({ message: 'shared note', contextName: 'target', tags: ['a'] });
+      service.createJot({ message: 'shared note', contextName: 'source', tags: ['a', 'b'], metadata: { k: 'v' } });
+      service.createJot({ message: 'unique note', contextName: 'source' });
+      service.createJot({ message: 'second note', contextName: 'source' });
+      service.deleteJot(service.createJot({ message: 'trashed note', contextName: 'source' }).id);
+
+      const result = service.mergeContexts('source', 'target');
+
+      assert.strictEqual(result.moved, 2);
+      assert.strictEqual(result.duplicates, 1);
+      assert.strictEqual(result.target.jotCount, 3);
+      const merged = repository.getJot(kept.id)!;
+      assert.deepStrictEqual(merged.tags.sort(), ['a', 'b']);
+      assert.deepStrictEqual(merged.metadata, { k: 'v' });
+      assert.strictEqual(service.getContext('source'), null);
+    });
+
+    it('should hand the children of folded jots to the jot they are folded into', () => {
+      const kept = service.createJot({ message: 'shared note', contextName: 'target' });
+      const folded = service.createJot({ message: 'shared note', contextName: 'source' });
+      const child = service.createJot({ message: 'step one', parentId: folded.id });
+
+      service.mergeContexts('source', 'target');
+
+      assert.strictEqual(repository.getJot(child.id)!.parentId, kept.id);
+      assert.deepStrictEqual(repository.getJot(kept.id)!.progress, { closed: 0, total: 1 });
+      const [listed] = service.expandJots(service.getContextJots('target', undefined, false, true));
+      assert.deepStrictEqual(listed.children!.map((j) => j.message), ['step one']);
+    });
+
+    it('should rename a context keeping its jots', () => {
+      service.createJot({ message: 'note', contextName: 'old-name' });
+
+      const renamed = service.renameContext('old-name', 'new-name');
+
+      assert.strictEqual(renamed.name, 'new-name');
+      assert.strictEqual(service.getContextJots('new-name').length, 1);
+    });
+
+    it('should move a jot to another context and revert the move', () => {
+      const jot = service.createJot({ message: 'note', contextName: 'first' });
+
+      const moved = service.moveJot(jot.id, 'second');
+
+      assert.strictEqual(service.getContext(moved!.contextId)!.name, 'second');
+      const reverted = service.undo(jot.id);
+      assert.strictEqual(service.getContext(reverted.contextId)!.name, 'first');
+    });
+
+    it('should refuse to merge a context without a parent', () => {
+      service.createJot({ message: 'note', contextName: 'repo' });
+
+      assert.throws(() => service.mergeIntoParent('repo'), /has no parent/);
+    });
+
+    it('should keep the hierarchy through export and import', () => {
+      service.createJot({ message: 'repo note', contextName: 'repo' });
+      service.createJot({ message: 'branch note', contextName: 'repo/feature' });
+      const doc = service.exportData();
+      const target = new JotService(new JotRepository(initializeDatabase(join(testDir, 'import.db'))));
+
+      target.importData({ ...doc, contexts: [...doc.contexts].reverse() });
+
+      const branch = target.getContext('repo/feature')!;
+      assert.strictEqual(target.getContext(branch.parentId!)!.name, 'repo');
+    });
+  });
+
+  describe('Context Settings', () => {
+    it('should apply context defaults to new jots', () => {
+      service.createJot({ message: 'first', contextName: 'repo' });
+      service.updateContext('repo', { defaultTtlDays: 0, defaultTags: [' auth ', ''] });
+
+      const jot = service.createJot({ message: 'second', contextName: 'repo', tags: ['bug'] });
+      const explicit = service.createJot({ message: 'third', contextName: 'repo', ttlDays: 2 });
+
+      assert.strictEqual(jot.expiresAt, null);
+      assert.deepStrictEqual(jot.tags.sort(), ['auth', 'bug']);
+      assert.ok(explicit.expiresAt !== null);
+    });
+
+    it('should reject unknown contexts and negative TTLs', () => {
+      service.createJot({ message: 'first', contextName: 'repo' });
+
+      assert.throws(() => service.updateContext('missing', { description: 'x' }), /not found/);
+      assert.throws(() => service.updateContext('repo', { defaultTtlDays: -1 }), /must not be negative/);
+    });
+
+    it('should keep context settings through export and import', () => {
+      service.createJot({ message: 'note', contextName: 'repo' });
+      service.updateContext('repo', { description: 'Goal', status: 'archived', defaultTags: ['x'] });
+      const doc = service.exportData();
+      const target = new JotService(new JotRepository(initializeDatabase(join(testDir, 'import-settings.db'))));
+
+      target.importData(doc);
+
+      const imported = target.getContext('repo')!;
+      assert.strictEqual(imported.description, 'Goal');
+      assert.strictEqual(imported.status, 'archived');
+      assert.deepStrictEqual(imported.defaultTags, ['x']);
+    });
+  });
+
+  describe('Tags', () => {
+    it('should rename tags given in any case', () => {
+      service.createJot({ message: 'note', tags: ['bugfix'] });
+
+      assert.strictEqual(service.renameTag(' BugFix ', 'Bug'), 1);
+      assert.deepStrictEqual(service.countTags().map((t) => t.name), ['bug']);
+    });
+
+    it('should refuse to rename a tag into its own child', () => {
+      assert.throws(() => service.renameTag('area', 'area/db'), /its own child/);
+      assert.throws(() => service.deleteTag('  '), /must not be empty/);
+    });
+  });
+
+  describe('Duplicates', () => {
+    it('should report a duplicate in the same context', () => {
+      const first = service.createJot({ message: 'Auth tokens expire after 15 minutes', contextName: 'api' });
+
+      const second = service.createJot({ message: 'auth tokens now expire after 15 minutes.', contextName: 'api' });
+      const elsewhere = service.createJot({ message: 'Auth tokens expire after 15 minutes', contextName: 'web' });
+
+      assert.notStrictEqual(second.id, first.id);
+      assert.strictEqual(second.duplicate?.jotId, first.id);
+      assert.ok(second.duplicate!.similarity < 1);
+      assert.strictEqual(elsewhere.duplicate, undefined);
+    });
+
+    it('should return the existing jot when reusing duplicates', () => {
+      const first = service.createJot({ message: 'Use redis for the session cache', contextName: 'api' });
+
+      const reused = service.createJot({
+        message: 'use Redis for the session cache!',
+        contextName: 'api',
+        onDuplicate: 'reuse',
+      });
+
+      assert.strictEqual(reused.id, first.id);
+      assert.deepStrictEqual(reused.duplicate, { jotId: first.id, similarity: 1 });
+      assert.strictEqual(service.getContextJots('api').length, 1);
+    });
+
+    it('should merge duplicate clusters into the oldest jot', () => {
+      const keep = service.createJot({
+        message: 'Auth tokens expire after 15 minutes',
+        contextName: 'api',
+        tags: ['auth'],
+        metadata: { source: 'docs' },
+        ttlDays: 7,
+      });
+      const duplicate = service.createJot({
+        message: 'auth tokens now expire after 15 minutes',
+        contextName: 'api',
+        tags: ['security'],
+        metadata: { source: 'chat', ticket: 'ABC-1' },
+        ttlDays: 0,
+      });
+      service.createJot({ message: 'Use redis for the session cache', contextName: 'api' });
+
+      assert.strictEqual(service.dedupeJots({ dryRun: true }).length, 1);
+      assert.strictEqual(service.getContextJots('api').length, 3);
+
+      const [cluster] = service.dedupeJots({ context: 'api' });
+
+      assert.strictEqual(cluster.keep.id, keep.id);
+      assert.deepStrictEqual(cluster.keep.tags.sort(), ['auth', 'security']);
+      assert.deepStrictEqual(cluster.keep.metadata, { source: 'docs', ticket: 'ABC-1' });
+      assert.strictEqual(cluster.keep.expiresAt, null);
+      assert.ok(repository.getJot(duplicate.id, true)?.deletedAt);
+      assert.strictEqual(service.getContextJots('api').length, 2);
+      assert.deepStrictEqual(service.dedupeJots(), []);
+    });
+
+    it('should hand the children of merged duplicates to the jot that is kept', () => {
+      const keep = service.createJot({ message: 'Fix the flaky login test', contextName: 'a' });
+      const duplicate = service.createJot({ message: 'Fix the flaky login test!', contextName: 'a' });
+      const child = service.createJot({ message: 'step one', parentId: duplicate.id, status: 'done' });
+
+      const [cluster] = service.dedupeJots();
+
+      assert.strictEqual(repository.getJot(child.id)!.parentId, keep.id);
+      assert.deepStrictEqual(cluster.keep.progress, { closed: 1, total: 1 });
+      assert.strictEqual(cluster.keep.status, 'done');
+      const listed = service.expandJots(service.getContextJots('a', undefined, false, true));
+      assert.deepStrictEqual(listed.map((j) => j.children!.map((c) => c.message)), [['step one']]);
+    });
+  });
+
+  describe('Links', () => {
+    it('should validate links and treat relates-to as symmetric', () => {
+      const a = service.createJot({ message: 'a' });
+      const b = service.createJot({ message: 'b' });
+
+      assert.strictEqual(service.linkJots(a.id, b.id), true);
+      assert.strictEqual(service.linkJots(b.id, a.id, 'relates-to'), false);
+      assert.strictEqual(service.linkJots(b.id, a.id, 'blocks'), true);
+      assert.throws(() => service.linkJots(a.id, a.id), /itself/);
+      assert.throws(() => service.linkJots(a.id, 9999), /Jot 9999 not found/);
+    });
+
+    it('should get a jot with its neighbours up to a depth', () => {
+      const first = service.createJot({ message: 'first' });
+      const second = service.createJot({ message: 'second' });
+      const third = service.createJot({ message: 'third' });
+      service.linkJots(second.id, first.id, 'follow-up');
+      service.linkJots(third.id, second.id, 'follow-up');
+
+      const near = service.getLinkedJots(first.id);
+      const all = service.getLinkedJots(first.id, 2);
+
+      assert.deepStrictEqual(near.neighbours.map((j) => j.message), ['second']);
+      assert.deepStrictEqual(all.neighbours.map((j) => j.message), ['second', 'third']);
+      assert.throws(() => service.getLinkedJots(9999), /Jot 9999 not found/);
+    });
+  });
+
+  describe('Code Anchors', () => {
+    it('should reject invalid anchors', () => {
+      assert.throws(() => service.createJot({ message: 'a', anchors: [{ path: ' ' }] }), /Anchor path is required/);
+      assert.throws(
+        () => service.createJot({ message: 'b', anchors: [{ path: 'src/a.ts', startLine: 9, endLine: 3 }] }),
+        /Invalid anchor line range/
+      );
+      assert.strictEqual(service.searchJots({}).length, 0);
+    });
+
+    it('should keep anchors through export and import', () => {
+      const anchors = [{ path: 'src/worker.ts', startLine: 40, endLine: 52, symbol: 'flushQueue' }];
+      service.createJot({ message: 'flush before shutdown', anchors });
+      const doc = service.exportData();
+      const target = new JotService(new JotRepository(initializeDatabase(join(testDir, 'anchors.db'))));
+
+      target.importData(doc);
+
+      assert.deepStrictEqual(target.getJotsForPath('src/worker.ts')[0].anchors, anchors);
+    });
+  });
+
+  describe('Child Jots', () => {
+    it('should create children in the context of their parent', () => {
+      const parent = service.createJot({ message: 'release 1.2', contextName: 'api' });
+
+      const child = service.createJot({ message: 'tag the release', contextName: 'web', parentId: parent.id });
+
+      assert.strictEqual(child.parentId, parent.id);
+      assert.strictEqual(child.contextId, parent.contextId);
+      assert.throws(() => service.createJot({ message: 'orphan', parentId: 9999 }), /Parent jot 9999 not found/);
+    });
+
+    it('should complete and reopen parents as their children change', () => {
+      const parent = service.createJot({ message: 'release 1.2' });
+      const first = service.createJot({ message: 'tag the release', parentId: parent.id });
+      const second = service.createJot({ message: 'publish notes', parentId: parent.id });
+
+      service.completeJot(first.id);
+      assert.strictEqual(repository.getJot(parent.id)!.status, 'open');
+
+      service.updateJot(second.id, { status: 'dropped' });
+      assert.strictEqual(repository.getJot(parent.id)!.status, 'done');
+      assert.strictEqual(service.getJotHistory(parent.id)[0].source, 'jot:rollup');
+
+      service.reopenJot(first.id);
+      assert.strictEqual(repository.getJot(parent.id)!.status, 'open');
+    });
+
+    it('should roll completion up after undo and trash restore', () => {
+      const parent = service.createJot({ message: 'release 1.2' });
+      const first = service.createJot({ message: 'tag the release', parentId: parent.id });
+
+      service.completeJot(first.id);
+      assert.strictEqual(repository.getJot(parent.id)!.status, 'done');
+
+      service.undo(first.id);
+      assert.strictEqual(repository.getJot(first.id)!.status, 'open');
+      assert.strictEqual(repository.getJot(parent.id)!.status, 'open');
+
+      service.completeJot(first.id);
+      const second = service.createJot({ message: 'publish notes', parentId: parent.id });
+      service.deleteJot(second.id);
+      assert.strictEqual(repository.getJot(parent.id)!.status, 'done');
+
+      service.restoreJot(second.id);
+      const restored = repository.getJot(parent.id)!;
+      assert.strictEqual(restored.status, 'open');
+      assert.deepStrictEqual(restored.progress, { closed: 1, total: 2 });
+    });
+
+    it('should reparent jots without creating cycles', () => {
+      const parent = service.createJot({ message: 'parent', contextName: 'api' });
+      const child = service.createJot({ message: 'child', contextName: 'api', parentId: parent.id });
+      const other = service.createJot({ message: 'other', contextName: 'web' });
+
+      assert.throws(() => service.updateJot(parent.id, { parentId: child.id }), /its own child/);
+      assert.throws(() => service.updateJot(parent.id, { parentId: parent.id }), /its own parent/);
+
+      const moved = service.updateJot(parent.id, { parentId: other.id })!;
+      assert.strictEqual(moved.contextId, other.contextId);
+      assert.strictEqual(repository.getJot(child.id)!.contextId, other.contextId);
+      assert.strictEqual(service.updateJot(parent.id, { parentId: null })!.parentId, null);
+    });
+
+    it('should ask what to do with children on delete', () => {
+      const parent = service.createJot({ message: 'parent' });
+      const child = service.createJot({ message: 'child', parentId: parent.id });
+      const other = service.createJot({ message: 'other parent' });
+      const otherChild = service.createJot({ message: 'other child', parentId: other.id });
+
+      assert.throws(() => service.deleteJot(parent.id), /has 1 child jot/);
+
+      assert.strictEqual(service.deleteJot(parent.id, undefined, 'orphan'), true);
+      assert.strictEqual(repository.getJot(child.id)!.parentId, null);
+
+      assert.strictEqual(service.deleteJot(other.id, undefined, 'delete'), true);
+      assert.strictEqual(repository.getJot(otherChild.id), null);
+    });
+
+    it('should nest expanded children and move them with their parent', () => {
+      const parent = service.createJot({ message: 'parent', contextName: 'api' });
+      const child = service.createJot({ message: 'child', contextName: 'api', parentId: parent.id });
+      service.createJot({ message: 'grandchild', contextName: 'api', parentId: child.id });
+
+      const expanded = service.expandJots(service.searchJots({ contextId: parent.contextId }));
+
+      assert.deepStrictEqual(expanded.map((j) => j.message), ['parent']);
+      assert.strictEqual(expanded[0].children![0].children![0].message, 'grandchild');
+
+      service.moveJot(parent.id, 'web');
+      const web = service.getContext('web')!;
+      assert.strictEqual(service.getContextJots('web').length, 3);
+      assert.strictEqual(service.moveJot(child.id, 'api')!.parentId, null);
+      assert.strictEqual(repository.getJot(parent.id)!.contextId, web.id);
+    });
   });
 
   describe('Jot Retrieval', () => {
@@ -234,6 +699,122 @@ describe('JotService', () => {
     });
   });
 
+  describe('Jot Status', () => {
+    it('should complete a jot', () => {
+      const jot = service.createJot({ message: 'task' });
+
+      const completed = service.completeJot(jot.id);
+
+      assert.strictEqual(completed!.status, 'done');
+      assert.ok(completed!.completedAt);
+    });
+
+    it('should reopen a jot', () => {
+      const jot = service.createJot({ message: 'task', status: 'done' });
+
+      const reopened = service.reopenJot(jot.id);
+
+      assert.strictEqual(reopened!.status, 'open');
+      assert.strictEqual(reopened!.completedAt, null);
+    });
+
+    it('should return null when completing non-existent jot', () => {
+      assert.strictEqual(service.completeJot(999), null);
+    });
+
+    it('should prioritise open jots when resuming work', () => {
+      service.createJot({ message: 'open task', contextName: 'ctx' });
+      service.createJot({ message: 'done 1', contextName: 'ctx', status: 'done' });
+      service.createJot({ message: 'done 2', contextName: 'ctx', status: 'done' });
+
+      const jots = service.getResumeJots(2, 'ctx');
+
+      assert.strictEqual(jots.length, 2);
+      assert.strictEqual(jots[0].message, 'open task');
+      assert.strictEqual(jots[1].status, 'done');
+    });
+  });
+
+  describe('Jot History', () => {
+    it('should list revisions newest first', () => {
+      const jot = service.createJot({ message: 'v1' });
+      service.updateJot(jot.id, { message: 'v2' });
+      service.updateJot(jot.id, { message: 'v3' });
+
+      const history = service.getJotHistory(jot.id);
+
+      assert.deepStrictEqual(history.map((r) => r.snapshot.message), ['v2', 'v1']);
+    });
+
+    it('should revert to a revision', () => {
+      const jot = service.createJot({ message: 'v1', tags: ['keep'] });
+      service.updateJot(jot.id, { message: 'v2', tags: [] });
+      const [revision] = service.getJotHistory(jot.id);
+
+      const reverted = service.revertJot(jot.id, revision.id);
+
+      assert.strictEqual(reverted.message, 'v1');
+      assert.deepStrictEqual(reverted.tags, ['keep']);
+      assert.strictEqual(service.getJotHistory(jot.id)[0].action, 'revert');
+    });
+
+    it('should reject a revision of another jot', () => {
+      const jot1 = service.createJot({ message: 'a' });
+      const jot2 = service.createJot({ message: 'b' });
+      service.updateJot(jot1.id, { message: 'a2' });
+      const [revision] = service.getJotHistory(jot1.id);
+
+      assert.throws(() => service.revertJot(jot2.id, revision.id), /not found/);
+    });
+
+    it('should undo the last change to a jot', () => {
+      const jot = service.createJot({ message: 'careful note' });
+      service.updateJot(jot.id, { message: 'clobbered' });
+
+      const restored = service.undo(jot.id);
+
+      assert.strictEqual(restored.message, 'careful note');
+    });
+
+    it('should keep going back with repeated undos', () => {
+      const jot = service.createJot({ message: 'A' });
+      service.updateJot(jot.id, { message: 'B' });
+      service.updateJot(jot.id, { message: 'C' });
+
+      assert.strictEqual(service.undo(jot.id).message, 'B');
+      assert.strictEqual(service.undo(jot.id).message, 'A');
+      assert.throws(() => service.undo(jot.id), /No earlier version/);
+      assert.strictEqual(service.getJotHistory(jot.id)[0].action, 'undo');
+    });
+
+    it('should undo a revert', () => {
+      const jot = service.createJot({ message: 'A' });
+      service.updateJot(jot.id, { message: 'B' });
+      const [revision] = service.getJotHistory(jot.id);
+      service.revertJot(jot.id, revision.id);
+
+      assert.strictEqual(service.undo(jot.id).message, 'B');
+    });
+
+    it('should undo the last deletion', () => {
+      const jot = service.createJot({ message: 'deleted by mistake', status: 'done', pinned: true });
+      service.deleteJot(jot.id);
+
+      const restored = service.undo();
+
+      assert.strictEqual(restored.id, jot.id);
+      assert.strictEqual(restored.message, 'deleted by mistake');
+      assert.strictEqual(restored.status, 'done');
+      assert.strictEqual(restored.completedAt, jot.completedAt);
+      assert.strictEqual(restored.pinned, true);
+      assert.strictEqual(restored.createdAt, jot.createdAt);
+    });
+
+    it('should throw when there is nothing to undo', () => {
+      assert.throws(() => service.undo(), /No deleted jots/);
+    });
+  });
+
   describe('Jot Deletion', () => {
     it('should delete jot by id', () => {
       const jot = service.createJot({ message: 'test' });
@@ -243,6 +824,72 @@ describe('JotService', () => {
       assert.ok(deleted);
     });
 
+    it('should restore a deleted jot', () => {
+      const jot = service.createJot({ message: 'test' });
+      service.deleteJot(jot.id);
+
+      const restored = service.restoreJot(jot.id);
+
+      assert.strictEqual(restored!.id, jot.id);
+    });
+
+    it('should undo a deletion from the trash', () => {
+      const jot = service.createJot({ message: 'undo me' });
+      service.deleteJot(jot.id);
+
+      const restored = service.undo();
+
+      assert.strictEqual(restored.id, jot.id);
+      assert.strictEqual(restored.deletedAt, null);
+    });
+
+    it('should skip deletions whose context was purged when undoing', () => {
+      const kept = service.createJot({ message: 'keep my context', contextName: 'kept' });
+      const gone = service.createJot({ message: 'lose my context', contextName: 'gone' });
+      service.deleteJot(kept.id);
+      service.deleteJot(gone.id);
+      service.deleteContext('gone');
+      repository.purgeTrash(Date.now() + 1);
+
+      const restored = service.undo();
+
+      assert.strictEqual(restored.id, kept.id);
+      assert.throws(() => service.undo(), /No deleted jots/);
+    });
+
+    it('should archive expired jots during cleanup by default', () => {
+      const expired = service.createJot({ message: 'expired', ttlDays: -1 });
+
+      service.cleanupExpired();
+
+      const archived = service.searchJots({ archived: true });
+      assert.strictEqual(archived.length, 1);
+      assert.strictEqual(archived[0].id, expired.id);
+    });
+
+    it('should delete expired jots during cleanup in delete mode', () => {
+      const deleting = new JotService(repository, {
+        ...DEFAULT_CONFIG,
+        cleanup: { ...DEFAULT_CONFIG.cleanup, mode: 'delete' },
+      });
+      deleting.createJot({ message: 'expired', ttlDays: -1 });
+
+      const deleted = deleting.cleanupExpired();
+
+      assert.strictEqual(deleted, 1);
+      assert.strictEqual(deleting.searchJots({ includeExpired: true }).length, 0);
+    });
+
+    it('should resurrect an archived jot on renew', () => {
+      const jot = service.createJot({ message: 'expired', ttlDays: -1 });
+      service.cleanupExpired();
+
+      const [renewed] = service.renewJots([jot.id], 7);
+
+      assert.strictEqual(renewed.archivedAt, null);
+      assert.strictEqual(service.searchJots({}).length, 1);
+    });
+
     it('should cleanup expired jots', () => {
       service.createJot({ message: 'expired', ttlDays: -1 }); // Expired
       service.createJot({ message: 'active', ttlDays: 7 }); // Active
@@ -253,6 +900,193 @@ describe('JotService', () => {
     });
   });
 
+  describe('Expiration', () => {
+    it('should list jots expiring soon in a context', () => {
+      service.createJot({ message: 'soon', contextName: 'ctx-a', ttlDays: 2 });
+      service.createJot({ message: 'later', contextName: 'ctx-a', ttlDays: 10 });
+      service.createJot({ message: 'elsewhere', contextName: 'ctx-b', ttlDays: 2 });
+
+      const expiring = service.getExpiringSoon(3, 'ctx-a');
+
+      assert.deepStrictEqual(
+        expiring.map((j) => j.message),
+        ['soon']
+      );
+    });
+
+    it('should renew several jots from now', () => {
+      const first = service.createJot({ message: 'first', ttlDays: 1 });
+      const second = service.createJot({ message: 'second', ttlDays: 2 });
+
+      const renewed = service.renewJots([first.id, second.id, 9999], 7);
+
+      assert.strictEqual(renewed.length, 2);
+      const expected = Date.now() + 7 * 24 * 60 * 60 * 1000;
+      for (const jot of renewed) {
+        assert.ok(Math.abs(jot.expiresAt! - expected) < 5000);
+      }
+      assert.strictEqual(service.getExpiringSoon(3).length, 0);
+    });
+
+    it('should make jots permanent when renewed with zero TTL', () => {
+      const jot = service.createJot({ message: 'keep', ttlDays: 1 });
+
+      const [renewed] = service.renewJots([jot.id], 0);
+
+      assert.strictEqual(renewed.expiresAt, null);
+    });
+  });
+
+  describe('Export and Import', () => {
+    it('should export contexts and jots', () => {
+      service.createJot({ message: 'first', contextName: 'api', tags: ['bug'] });
+      service.createJot({ message: 'second', contextName: 'api', metadata: { pr: '12' } });
+      service.createJot({ message: 'other', contextName: 'web' });
+
+      const doc = service.exportData();
+
+      assert.strictEqual(doc.format, 'jot-mcp');
+      assert.strictEqual(doc.contexts.length, 2);
+      assert.strictEqual(doc.jots.length, 3);
+      const apiJots = doc.jots.filter((j) => j.context === 'api').map((j) => j.message);
+      assert.deepStrictEqual(apiJots.sort(), ['first', 'second']);
+    });
+
+    it('should export a single context', () => {
+      service.createJot({ message: 'first', contextName: 'api' });
+      service.createJot({ message: 'other', contextName: 'web' });
+
+      const doc = service.exportData('api');
+
+      assert.strictEqual(doc.contexts.length, 1);
+      assert.strictEqual(doc.jots.length, 1);
+      assert.strictEqual(doc.jots[0].context, 'api');
+    });
+
+    it('should throw when exporting unknown context', () => {
+      assert.throws(() => service.exportData('missing'), /not found/);
+    });
+
+    it('should export a context as Markdown', () => {
+      service.createJot({ message: 'ship it', contextName: 'api', tags: ['todo'] });
+
+      const markdown = service.exportMarkdown('api');
+
+      assert.ok(markdown.includes('# api'));
+      assert.ok(markdown.includes('- [ ] ship it'));
+    });
+
+    it('should import new jots preserving timestamps', () => {
+      service.createJot({ message: 'note', contextName: 'api', tags: ['bug'] });
+      const doc = service.exportData();
+      service.deleteContext('api');
+
+      const result = service.importData(doc);
+
+      assert.deepStrictEqual(result, { created: 1, updated: 0, skipped: 0 });
+      const jots = service.getContextJots('api');
+      assert.strictEqual(jots.length, 1);
+      assert.strictEqual(jots[0].createdAt, doc.jots[0].createdAt);
+      assert.deepStrictEqual(jots[0].tags, ['bug']);
+    });
+
+    it('should skip existing jots by default', () => {
+      service.createJot({ message: 'note', contextName: 'api', tags: ['local'] });
+      const doc = service.exportData();
+      doc.jots[0].tags = ['remote'];
+
+      const result = service.importData(doc);
+
+      assert.deepStrictEqual(result, { created: 0, updated: 0, skipped: 1 });
+      assert.deepStrictEqual(service.getContextJots('api')[0].tags, ['local']);
+    });
+
+    it('should overwrite existing jots', () => {
+      service.createJot({ message: 'note', contextName: 'api', tags: ['local'] });
+      const doc = service.exportData();
+      doc.jots[0].tags = ['remote'];
+      doc.jots[0].expiresAt = null;
+
+      doc.jots[0].status = 'done';
+
+      const result = service.importData(doc, 'overwrite');
+
+      assert.strictEqual(result.updated, 1);
+      const jot = service.getContextJots('api')[0];
+      assert.deepStrictEqual(jot.tags, ['remote']);
+      assert.strictEqual(jot.expiresAt, null);
+      assert.strictEqual(jot.status, 'done');
+    });
+
+    it('should merge existing jots', () => {
+      service.createJot({
+        message: 'note',
+        contextName: 'api',
+        tags: ['local'],
+        metadata: { owner: 'me' },
+      });
+      const doc = service.exportData();
+      doc.jots[0].tags = ['remote'];
+      doc.jots[0].metadata = { owner: 'them', pr: '7' };
+
+      const result = service.importData(doc, 'merge');
+
+      assert.strictEqual(result.updated, 1);
+      const jot = service.getContextJots('api')[0];
+      assert.deepStrictEqual([...jot.tags].sort(), ['local', 'remote']);
+      assert.deepStrictEqual(jot.metadata, { owner: 'me', pr: '7' });
+    });
+
+    it('should keep child jots under their parents', () => {
+      const step = service.createJot({ message: 'tag the release', contextName: 'api', status: 'done' });
+      const release = service.createJot({ message: 'release 1.2', contextName: 'api' });
+      service.createJot({ message: 'publish notes', contextName: 'api', parentId: release.id });
+      service.updateJot(step.id, { parentId: release.id });
+      const doc = service.exportData();
+      const target = new JotService(new JotRepository(initializeDatabase(join(testDir, 'children.db'))));
+
+      assert.deepStrictEqual(
+        doc.jots.map((jot) => jot.parent),
+        [1, undefined, 1]
+      );
+      target.importData(doc);
+
+      const [parent] = target.getContextJots('api', undefined, false, true);
+      assert.strictEqual(parent.message, 'release 1.2');
+      assert.deepStrictEqual(parent.progress, { closed: 1, total: 2 });
+      assert.deepStrictEqual(
+        target.expandJots([parent])[0].children!.map((jot) => jot.message),
+        ['tag the release', 'publish notes']
+      );
+    });
+
+    it('should recreate links between imported jots', () => {
+      const old = service.createJot({ message: 'use redis', contextName: 'api' });
+      const current = service.createJot({ message: 'use memcached', contextName: 'api' });
+      const blocker = service.createJot({ message: 'upgrade the driver', contextName: 'web' });
+      service.linkJots(current.id, old.id, 'supersedes');
+      service.linkJots(blocker.id, current.id, 'blocks');
+      const doc = service.exportData();
+      const target = new JotService(new JotRepository(initializeDatabase(join(testDir, 'links.db'))));
+
+      target.importData(doc);
+
+      const [imported] = target.searchJots({ query: 'memcached' });
+      const links = imported.links.map((link) => [
+        target.getLinkedJots(link.jotId).jot.message,
+        link.relation,
+        link.direction,
+      ]);
+      assert.deepStrictEqual(
+        links.sort(),
+        [
+          ['upgrade the driver', 'blocks', 'incoming'],
+          ['use redis', 'supersedes', 'outgoing'],
+        ]
+      );
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty context name', () => {
       const jot = service.createJot({ message: 'test', contextName: '' });
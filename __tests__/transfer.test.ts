@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  EXPORT_VERSION,
+  contentHash,
+  parseExport,
+  serializeExport,
+} from '../src/transfer.js';
+import { ExportDocument } from '../src/types.js';
+
+function sampleDocument(): ExportDocument {
+  return {
+    format: 'jot-mcp',
+    version: EXPORT_VERSION,
+    exportedAt: 1700000000000,
+    contexts: [{ name: 'api', repository: null, createdAt: 1, updatedAt: 2 }],
+    jots: [
+      {
+        context: 'api',
+        message: 'First note',
+        createdAt: 10,
+        updatedAt: 11,
+        expiresAt: null,
+        tags: ['bug'],
+        metadata: { ticket: 'ABC-1' },
+      },
+      {
+        context: 'api',
+        message: 'Second note',
+        createdAt: 20,
+        updatedAt: 20,
+        expiresAt: 30,
+        tags: [],
+        metadata: {},
+      },
+    ],
+  };
+}
+
+describe('Transfer', () => {
+  describe('serializeExport / parseExport', () => {
+    it('should round-trip JSON', () => {
+      const doc = sampleDocument();
+
+      const parsed = parseExport(serializeExport(doc, 'json'));
+
+      assert.deepStrictEqual(parsed, doc);
+    });
+
+    it('should round-trip NDJSON', () => {
+      const doc = sampleDocument();
+
+      const text = serializeExport(doc, 'ndjson');
+      const parsed = parseExport(text);
+
+      assert.strictEqual(text.trim().split('\n').length, 4, 'header + 1 context + 2 jots');
+      assert.deepStrictEqual(parsed, doc);
+    });
+
+    it('should reject empty input', () => {
+      assert.throws(() => parseExport('   '), /empty/);
+    });
+
+    it('should reject NDJSON without header', () => {
+      const text = JSON.stringify({ type: 'jot', context: 'api', message: 'x' });
+
+      assert.throws(() => parseExport(text), /missing a header/);
+    });
+
+    it('should reject documents from a newer version', () => {
+      const doc = { ...sampleDocument(), version: EXPORT_VERSION + 1 };
+
+      assert.throws(() => parseExport(JSON.stringify(doc)), /not supported/);
+    });
+
+    it('should reject unknown formats', () => {
+      const doc = { ...sampleDocument(), format: 'other' };
+
+      assert.throws(() => parseExport(JSON.stringify(doc)), /Unsupported import format/);
+    });
+
+    it('should report the line of invalid NDJSON', () => {
+      const text = serializeExport(sampleDocument(), 'ndjson') + '{broken\n';
+
+      assert.throws(() => parseExport(text), /line 5/);
+    });
+
+    it('should reject parent references outside the document', () => {
+      const doc = sampleDocument();
+      doc.jots[1].parent = 2;
+
+      assert.throws(() => parseExport(JSON.stringify(doc)), /unknown parent 2/);
+    });
+
+    it('should reject links with an unknown relation', () => {
+      const doc = sampleDocument();
+      doc.jots[1].links = [{ jot: 0, relation: 'causes' as any }];
+
+      assert.throws(() => parseExport(JSON.stringify(doc)), /unknown link relation 'causes'/);
+    });
+  });
+
+  describe('contentHash', () => {
+    it('should ignore surrounding whitespace', () => {
+      assert.strictEqual(contentHash('note'), contentHash('  note\n'));
+    });
+
+    it('should differ for different messages', () => {
+      assert.notStrictEqual(contentHash('note a'), contentHash('note b'));
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Code location anchors
+ * A jot can point at places in the code: a file path (relative to the repository root),
+ * optionally a line range, a symbol name and the commit the location refers to.
+ */
+
+import { CodeAnchor } from './types.js';
+
+const COMMIT_SHA = /^[0-9a-f]{7,40}$/;
+
+/**
+ * Canonical path: forward slashes, without `./` segments or a trailing slash
+ */
+export function normalizePath(path: string): string {
+  return path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/\/{2,}/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/(\.\/)+/g, '/')
+    .replace(/\/$/, '');
+}
+
+/**
+ * Validate anchors and bring them into canonical form (a single line is a range of one line)
+ */
+export function normalizeAnchors(anchors: CodeAnchor[]): CodeAnchor[] {
+  return anchors.map((anchor) => {
+    const path = typeof anchor?.path === 'string' ? normalizePath(anchor.path) : '';
+    if (!path) {
+      throw new Error('Anchor path is required');
+    }
+
+    const normalized: CodeAnchor = { path };
+    const { startLine, endLine, symbol, commit } = anchor;
+    if (startLine !== undefined && startLine !== null) {
+      if (!isLine(startLine)) {
+        throw new Error(`Invalid anchor line for ${path}: ${startLine}`);
+      }
+      normalized.startLine = startLine;
+      normalized.endLine = startLine;
+    }
+    if (endLine !== undefined && endLine !== null) {
+      if (!isLine(endLine) || normalized.startLine === undefined || endLine < normalized.startLine) {
+        throw new Error(`Invalid anchor line range for ${path}: ${startLine ?? '?'}-${endLine}`);
+      }
+      normalized.endLine = endLine;
+    }
+    if (symbol !== undefined && symbol !== null && symbol.trim() !== '') {
+      normalized.symbol = symbol.trim();
+    }
+    if (commit !== undefined && commit !== null && commit.trim() !== '') {
+      const sha = commit.trim().toLowerCase();
+      if (!COMMIT_SHA.test(sha)) {
+        throw new Error(`Invalid anchor commit for ${path}: ${commit}`);
+      }
+      normalized.commit = sha;
+    }
+    return normalized;
+  });
+}
+
+/**
+ * Compact form of an anchor: `src/worker.ts:40-52#flushQueue@abc1234`
+ */
+export function formatAnchor(anchor: CodeAnchor): string {
+  let text = anchor.path;
+  if (anchor.startLine !== undefined) {
+    text += `:${anchor.startLine}`;
+    if (anchor.endLine !== undefined && anchor.endLine !== anchor.startLine) {
+      text += `-${anchor.endLine}`;
+    }
+  }
+  if (anchor.symbol) {
+    text += `#${anchor.symbol}`;
+  }
+  if (anchor.commit) {
+    text += `@${anchor.commit.slice(0, 7)}`;
+  }
+  return text;
+}
+
+/**
+ * Whether a message mentions a path as a whole: `api` matches "see api/routes.ts" or "`api`",
+ * not "rapid" or "api.ts"
+ */
+export function mentionsPath(message: string, path: string): boolean {
+  const escaped = normalizePath(path).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[\\s\`'"(/])${escaped}($|[\\s\`'"),;:/]|\\.(\\s|$))`).test(message);
+}
+
+function isLine(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
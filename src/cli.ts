@@ -0,0 +1,120 @@
+/**
+ * Command-line subcommands
+ * `jot-mcp export` and `jot-mcp import` for moving jots between machines
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { JotService } from './service.js';
+import { ExportFormat, ImportStrategy, MarkdownGroupBy } from './types.js';
+import { EXPORT_FORMATS, IMPORT_STRATEGIES, parseExport, serializeExport } from './transfer.js';
+import { MARKDOWN_GROUPINGS } from './markdown.js';
+
+export const CLI_COMMANDS = ['export', 'import'] as const;
+
+/**
+ * Run a CLI subcommand, returning the process exit code
+ */
+export function runCli(args: string[], service: JotService): number {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'export':
+      return runExport(rest, service);
+    case 'import':
+      return runImport(rest, service);
+    default:
+      console.error(`Unknown command: ${command}`);
+      return 1;
+  }
+}
+
+/**
+ * jot-mcp export [--format json|ndjson|markdown] [--context <name>] [--group-by tag|day] [--output <file>]
+ */
+function runExport(args: string[], service: JotService): number {
+  const format = getOption(args, '--format') || service.getConfig().outputFormat;
+  const context = getOption(args, '--context');
+
+  let output: string;
+  let summary: string;
+  if (format === 'markdown') {
+    const groupBy = (getOption(args, '--group-by') || 'tag') as MarkdownGroupBy;
+    if (!MARKDOWN_GROUPINGS.includes(groupBy)) {
+      console.error(`Unknown group-by: ${groupBy}`);
+      return 1;
+    }
+    output = service.exportMarkdown(context, groupBy);
+    summary = 'Exported Markdown handoff';
+  } else if (EXPORT_FORMATS.includes(format as ExportFormat)) {
+    const doc = service.exportData(context);
+    output = serializeExport(doc, format as ExportFormat);
+    summary = `Exported ${doc.jots.length} jots from ${doc.contexts.length} contexts`;
+  } else {
+    console.error(`Unknown format: ${format}`);
+    return 1;
+  }
+
+  const file = getOption(args, '--output');
+  if (file) {
+    writeFileSync(file, output, 'utf-8');
+    console.error(`${summary} to ${file}`);
+  } else {
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  }
+  return 0;
+}
+
+/**
+ * jot-mcp import <file|-> [--strategy skip|overwrite|merge]
+ */
+function runImport(args: string[], service: JotService): number {
+  const strategy = (getOption(args, '--strategy') || 'skip') as ImportStrategy;
+  if (!IMPORT_STRATEGIES.includes(strategy)) {
+    console.error(`Unknown strategy: ${strategy}`);
+    return 1;
+  }
+
+  const file = getPositional(args);
+  if (!file) {
+    console.error('Usage: jot-mcp import <file|-> [--strategy skip|overwrite|merge]');
+    return 1;
+  }
+
+  // "-" reads from stdin
+  const text = readFileSync(file === '-' ? 0 : file, 'utf-8');
+  const result = service.importData(parseExport(text), strategy);
+  console.error(
+    `Imported: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`
+  );
+  return 0;
+}
+
+/**
+ * Read `--name value` or `--name=value`
+ */
+function getOption(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === name) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`${name}=`)) {
+      return args[i].slice(name.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * First argument that is neither an option nor an option value
+ */
+function getPositional(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      if (!arg.includes('=')) i++;
+      continue;
+    }
+    return arg;
+  }
+  return undefined;
+}
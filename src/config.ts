@@ -1,20 +1,76 @@
 /**
  * Configuration and constants
+ * Settings are resolved from defaults, the user config file, a repo `.jot.json`
+ * and environment variables, in increasing order of precedence.
  */
 
+import { existsSync, readFileSync } from 'fs';
 import { homedir, platform } from 'os';
-import { join } from 'path';
+import { dirname, join, resolve } from 'path';
+import { CLEANUP_MODES, CleanupMode, DUPLICATE_ACTIONS, DuplicateAction, JotConfig, OutputFormat } from './types.js';
 
 export const DEFAULT_TTL_DAYS = 14;
 
+// Deleted jots and contexts stay restorable in the trash for this long
+export const TRASH_RETENTION_DAYS = 30;
+
+// Window for "expiring soon" warnings in prompts
+export const EXPIRING_SOON_DAYS = 3;
+
+// Expired jots are archived rather than deleted unless configured otherwise
+export const DEFAULT_CLEANUP_MODE: CleanupMode = 'archive';
+
+// New jots at least this similar to one in their context count as near-duplicates
+export const DUPLICATE_THRESHOLD = 0.85;
+
+export const USER_CONFIG_FILE = 'config.json';
+export const REPO_CONFIG_FILE = '.jot.json';
+
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['json', 'ndjson', 'markdown'];
+
+export const DEFAULT_CONFIG: JotConfig = {
+  defaultTtlDays: DEFAULT_TTL_DAYS,
+  defaultTags: [],
+  expiringSoonDays: EXPIRING_SOON_DAYS,
+  outputFormat: 'json',
+  contextNaming: {
+    includeBranch: true,
+    mainBranches: ['main', 'master'],
+    stripBranchPrefixes: [],
+    ticketPattern: null,
+    packageDirs: ['packages', 'apps'],
+    includeOwner: false,
+    separator: '/',
+    fallback: 'general',
+  },
+  cleanup: {
+    mode: DEFAULT_CLEANUP_MODE,
+    trashRetentionDays: TRASH_RETENTION_DAYS,
+  },
+  duplicates: {
+    threshold: DUPLICATE_THRESHOLD,
+    onDuplicate: 'create',
+  },
+  semanticSearch: true,
+};
+
+/**
+ * Partial settings as written in a config file or derived from the environment
+ */
+type ConfigOverrides = Partial<Omit<JotConfig, 'contextNaming' | 'cleanup' | 'duplicates'>> & {
+  contextNaming?: Partial<JotConfig['contextNaming']>;
+  cleanup?: Partial<JotConfig['cleanup']>;
+  duplicates?: Partial<JotConfig['duplicates']>;
+};
+
 /**
  * Get the storage directory following XDG Base Directory specification
  */
-export function getStorageDir(): string {
+export function getStorageDir(env: NodeJS.ProcessEnv = process.env): string {
   const isWindows = platform() === 'win32';
 
   if (isWindows) {
-    const appData = process.env.APPDATA;
+    const appData = env.APPDATA;
     if (!appData) {
       throw new Error('APPDATA environment variable not found');
     }
@@ -22,10 +78,239 @@ export function getStorageDir(): string {
   }
 
   // Linux/macOS - follow XDG specification
-  const xdgConfigHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  const xdgConfigHome = env.XDG_CONFIG_HOME || join(homedir(), '.config');
   return join(xdgConfigHome, 'jot-mcp');
 }
 
-export function getDatabasePath(): string {
-  return join(getStorageDir(), 'jots.sqlite');
+export function getDatabasePath(config: JotConfig = DEFAULT_CONFIG): string {
+  return config.databasePath ?? join(getStorageDir(), 'jots.sqlite');
+}
+
+/**
+ * Resolve settings for a working directory.
+ * Reads `config.json` from the storage directory, then the nearest `.jot.json`
+ * up to the repository root, then JOT_* environment variables.
+ */
+export function loadConfig(cwd: string = process.cwd(), env: NodeJS.ProcessEnv = process.env): JotConfig {
+  let config = DEFAULT_CONFIG;
+
+  const userFile = join(getStorageDir(env), USER_CONFIG_FILE);
+  if (existsSync(userFile)) {
+    config = mergeConfig(config, readConfigFile(userFile));
+  }
+
+  const repoFile = findRepoConfig(cwd);
+  if (repoFile) {
+    config = mergeConfig(config, readConfigFile(repoFile));
+  }
+
+  return mergeConfig(config, readEnvironment(env));
+}
+
+/**
+ * Find the nearest `.jot.json`, stopping at the repository root
+ */
+function findRepoConfig(cwd: string): string | null {
+  let dir = resolve(cwd);
+  while (true) {
+    const candidate = join(dir, REPO_CONFIG_FILE);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (existsSync(join(dir, '.git')) || parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a JSON config file; relative paths resolve against its directory
+ */
+function readConfigFile(file: string): ConfigOverrides {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid config file ${file}: ${(error as Error).message}`);
+  }
+
+  const overrides = validateOverrides(raw, file);
+  if (overrides.databasePath !== undefined) {
+    overrides.databasePath = resolvePath(overrides.databasePath, dirname(file));
+  }
+  return overrides;
+}
+
+/**
+ * Collect overrides from JOT_* environment variables
+ */
+function readEnvironment(env: NodeJS.ProcessEnv): ConfigOverrides {
+  const raw: Record<string, unknown> = {};
+  if (env.JOT_DB_PATH) {
+    raw.databasePath = resolvePath(env.JOT_DB_PATH, process.cwd());
+  }
+  if (env.JOT_DEFAULT_TTL_DAYS) {
+    raw.defaultTtlDays = Number(env.JOT_DEFAULT_TTL_DAYS);
+  }
+  if (env.JOT_DEFAULT_TAGS) {
+    raw.defaultTags = env.JOT_DEFAULT_TAGS.split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  if (env.JOT_OUTPUT_FORMAT) {
+    raw.outputFormat = env.JOT_OUTPUT_FORMAT;
+  }
+  if (env.JOT_CLEANUP_MODE) {
+    raw.cleanup = { mode: env.JOT_CLEANUP_MODE };
+  }
+  return validateOverrides(raw, 'environment');
+}
+
+function resolvePath(path: string, baseDir: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(baseDir, path);
+}
+
+function mergeConfig(base: JotConfig, overrides: ConfigOverrides): JotConfig {
+  return {
+    ...base,
+    ...overrides,
+    contextNaming: { ...base.contextNaming, ...overrides.contextNaming },
+    cleanup: { ...base.cleanup, ...overrides.cleanup },
+    duplicates: { ...base.duplicates, ...overrides.duplicates },
+  };
+}
+
+/**
+ * Check the shape of user-supplied settings, rejecting unknown keys
+ */
+function validateOverrides(raw: unknown, source: string): ConfigOverrides {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config in ${source}: ${message}`);
+  };
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isDays = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+  const isRegExp = (value: string): boolean => {
+    try {
+      new RegExp(value);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!isObject(raw)) {
+    return fail('expected an object');
+  }
+
+  const overrides: ConfigOverrides = {};
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case 'databasePath':
+        if (typeof value !== 'string' || value === '') fail('databasePath must be a non-empty string');
+        overrides.databasePath = value as string;
+        break;
+      case 'defaultTtlDays':
+        if (!isDays(value)) fail('defaultTtlDays must be a non-negative number (0 = permanent)');
+        overrides.defaultTtlDays = value as number;
+        break;
+      case 'defaultTags':
+        if (!isStringList(value)) fail('defaultTags must be an array of strings');
+        overrides.defaultTags = value as string[];
+        break;
+      case 'expiringSoonDays':
+        if (!isDays(value)) fail('expiringSoonDays must be a non-negative number');
+        overrides.expiringSoonDays = value as number;
+        break;
+      case 'outputFormat':
+        if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+          fail(`outputFormat must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+        }
+        overrides.outputFormat = value as OutputFormat;
+        break;
+      case 'semanticSearch':
+        if (typeof value !== 'boolean') fail('semanticSearch must be a boolean');
+        overrides.semanticSearch = value as boolean;
+        break;
+      case 'contextNaming': {
+        if (!isObject(value)) fail('contextNaming must be an object');
+        const naming = value as Record<string, unknown>;
+        overrides.contextNaming = {};
+        for (const [name, setting] of Object.entries(naming)) {
+          if (name === 'includeBranch' || name === 'includeOwner') {
+            if (typeof setting !== 'boolean') fail(`contextNaming.${name} must be a boolean`);
+            overrides.contextNaming[name] = setting as boolean;
+          } else if (name === 'mainBranches' || name === 'stripBranchPrefixes' || name === 'packageDirs') {
+            if (!isStringList(setting)) fail(`contextNaming.${name} must be an array of strings`);
+            overrides.contextNaming[name] = setting as string[];
+          } else if (name === 'ticketPattern') {
+            if (setting !== null && (typeof setting !== 'string' || !isRegExp(setting))) {
+              fail('contextNaming.ticketPattern must be a valid regular expression');
+            }
+            overrides.contextNaming.ticketPattern = setting as string | null;
+          } else if (name === 'separator' || name === 'fallback') {
+            if (typeof setting !== 'string' || setting === '') {
+              fail(`contextNaming.${name} must be a non-empty string`);
+            }
+            overrides.contextNaming[name] = setting as string;
+          } else {
+            fail(`unknown setting contextNaming.${name}`);
+          }
+        }
+        break;
+      }
+      case 'cleanup': {
+        if (!isObject(value)) fail('cleanup must be an object');
+        const cleanup = value as Record<string, unknown>;
+        overrides.cleanup = {};
+        for (const [name, setting] of Object.entries(cleanup)) {
+          if (name === 'mode') {
+            if (!CLEANUP_MODES.includes(setting as CleanupMode)) {
+              fail(`cleanup.mode must be one of: ${CLEANUP_MODES.join(', ')}`);
+            }
+            overrides.cleanup.mode = setting as CleanupMode;
+          } else if (name === 'trashRetentionDays') {
+            if (!isDays(setting)) fail('cleanup.trashRetentionDays must be a non-negative number');
+            overrides.cleanup.trashRetentionDays = setting as number;
+          } else {
+            fail(`unknown setting cleanup.${name}`);
+          }
+        }
+        break;
+      }
+      case 'duplicates': {
+        if (!isObject(value)) fail('duplicates must be an object');
+        const duplicates = value as Record<string, unknown>;
+        overrides.duplicates = {};
+        for (const [name, setting] of Object.entries(duplicates)) {
+          if (name === 'threshold') {
+            if (typeof setting !== 'number' || !(setting >= 0)) {
+              fail('duplicates.threshold must be a non-negative number');
+            }
+            overrides.duplicates.threshold = setting as number;
+          } else if (name === 'onDuplicate') {
+            if (!DUPLICATE_ACTIONS.includes(setting as DuplicateAction)) {
+              fail(`duplicates.onDuplicate must be one of: ${DUPLICATE_ACTIONS.join(', ')}`);
+            }
+            overrides.duplicates.onDuplicate = setting as DuplicateAction;
+          } else {
+            fail(`unknown setting duplicates.${name}`);
+          }
+        }
+        break;
+      }
+      default:
+        fail(`unknown setting ${key}`);
+    }
+  }
+
+  return overrides;
 }
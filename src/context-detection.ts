@@ -0,0 +1,216 @@
+/**
+ * Context detection
+ * A pipeline of strategies turning the working directory into a context name;
+ * the first strategy that returns a result wins.
+ */
+
+import { execSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+import { ContextNamingConfig } from './types.js';
+
+export const CONTEXT_FILE = '.jot-context';
+
+/**
+ * What git knows about the working directory
+ */
+export interface GitInfo {
+  root: string;
+  remoteUrl: string | null;
+  branch: string | null; // null on a detached HEAD
+}
+
+export interface DetectionInput {
+  cwd: string;
+  git: GitInfo | null; // null outside a git repository
+}
+
+export interface DetectedContext {
+  name: string;
+  repository: string | null; // Remote URL stored on the context
+  qualifiedName?: string; // Name with the repository owner, used when `name` is taken by another repository
+  parentName?: string; // Repository (or package) context a branch context belongs under
+}
+
+export type ContextStrategy = (
+  input: DetectionInput,
+  naming: ContextNamingConfig
+) => DetectedContext | null;
+
+/**
+ * A `.jot-context` file between the working directory and the repository root names the context
+ */
+export const contextFileStrategy: ContextStrategy = (input) => {
+  const stop = input.git ? resolve(input.git.root) : null;
+  let dir = resolve(input.cwd);
+  while (true) {
+    const file = join(dir, CONTEXT_FILE);
+    if (existsSync(file)) {
+      const name = readFileSync(file, 'utf-8')
+        .split('\n')
+        .map((line) => line.trim())
+        .find((line) => line !== '' && !line.startsWith('#'));
+      if (name) {
+        return { name, repository: input.git?.remoteUrl ?? null };
+      }
+    }
+    const parent = dirname(dir);
+    if (dir === stop || parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+};
+
+/**
+ * Repository name, monorepo package and mapped branch, e.g. `my-repo/api/PROJ-123`
+ */
+export const gitStrategy: ContextStrategy = (input, naming) => {
+  if (!input.git) {
+    return null;
+  }
+
+  const remote = input.git.remoteUrl ? parseRemoteUrl(input.git.remoteUrl) : null;
+  const repoName = remote?.repo || basename(input.git.root);
+  const packageName = findPackage(input.cwd, input.git.root, naming.packageDirs);
+  const branchPart = mapBranch(input.git.branch, naming);
+
+  const parts = [packageName, branchPart].filter((part): part is string => !!part);
+  const compose = (repo: string, suffix: string[]) => [repo, ...suffix].join(naming.separator);
+  const owned = naming.includeOwner && remote?.owner ? `${remote.owner}/${repoName}` : repoName;
+
+  return {
+    name: compose(owned, parts),
+    repository: input.git.remoteUrl,
+    qualifiedName: remote?.owner ? compose(`${remote.owner}/${repoName}`, parts) : undefined,
+    parentName: parts.length > 0 ? compose(owned, parts.slice(0, -1)) : undefined,
+  };
+};
+
+/**
+ * Outside git, the working directory name
+ */
+export const directoryStrategy: ContextStrategy = (input) => {
+  const name = basename(resolve(input.cwd));
+  return name ? { name, repository: null } : null;
+};
+
+export const fallbackStrategy: ContextStrategy = (_input, naming) => ({
+  name: naming.fallback,
+  repository: null,
+});
+
+export const DEFAULT_STRATEGIES: readonly ContextStrategy[] = [
+  contextFileStrategy,
+  gitStrategy,
+  directoryStrategy,
+  fallbackStrategy,
+];
+
+/**
+ * Run the strategies in order for a working directory
+ */
+export function detectContext(
+  cwd: string,
+  naming: ContextNamingConfig,
+  strategies: readonly ContextStrategy[] = DEFAULT_STRATEGIES
+): DetectedContext {
+  const input: DetectionInput = { cwd, git: readGitInfo(cwd) };
+  for (const strategy of strategies) {
+    const detected = strategy(input, naming);
+    if (detected) {
+      return detected;
+    }
+  }
+  return fallbackStrategy(input, naming)!;
+}
+
+/**
+ * Ask git about the working directory, or null outside a repository
+ */
+export function readGitInfo(cwd: string): GitInfo | null {
+  const git = (command: string): string | null => {
+    try {
+      return (
+        execSync(`git ${command}`, {
+          cwd,
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'ignore'],
+        }).trim() || null
+      );
+    } catch {
+      return null;
+    }
+  };
+
+  const root = git('rev-parse --show-toplevel');
+  if (!root) {
+    return null;
+  }
+
+  const branch = git('rev-parse --abbrev-ref HEAD');
+  return {
+    root,
+    remoteUrl: git('config --get remote.origin.url'),
+    branch: branch === 'HEAD' ? null : branch,
+  };
+}
+
+/**
+ * Extract owner and repository name from an SSH or HTTPS remote URL
+ */
+export function parseRemoteUrl(url: string): { owner: string | null; repo: string } | null {
+  const path = url
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '');
+  const parts = path.split(/[/:]/).filter((part) => part);
+  const repo = parts.pop();
+  if (!repo) {
+    return null;
+  }
+  const owner = parts.length > 0 ? parts[parts.length - 1] : null;
+  return { owner: owner && !owner.includes('@') && !owner.includes('.') ? owner : null, repo };
+}
+
+/**
+ * Turn a branch into the context suffix, or null for branches that map to the repository itself
+ */
+export function mapBranch(branch: string | null, naming: ContextNamingConfig): string | null {
+  if (!branch || !naming.includeBranch || naming.mainBranches.includes(branch)) {
+    return null;
+  }
+
+  if (naming.ticketPattern) {
+    const match = new RegExp(naming.ticketPattern).exec(branch);
+    if (match) {
+      return match[1] ?? match[0];
+    }
+  }
+
+  const prefix = naming.stripBranchPrefixes.find((p) => branch.startsWith(p));
+  return prefix ? branch.slice(prefix.length) || null : branch;
+}
+
+/**
+ * Package name when the working directory is inside `<packageDir>/<name>` of the repository
+ */
+function findPackage(cwd: string, root: string, packageDirs: string[]): string | null {
+  const parts = relative(resolve(root), resolve(cwd)).split(sep);
+  if (parts.length >= 2 && packageDirs.includes(parts[0])) {
+    return parts[1];
+  }
+  return null;
+}
+
+/**
+ * Turn a client-supplied directory (plain path or file:// URI, e.g. an MCP root) into an absolute path
+ */
+export function toDirectoryPath(pathOrUri: string): string {
+  const path = pathOrUri.startsWith('file://') ? fileURLToPath(pathOrUri) : resolve(pathOrUri);
+  if (!existsSync(path)) {
+    throw new Error(`Directory not found: ${pathOrUri}`);
+  }
+  return path;
+}
@@ -0,0 +1,195 @@
+/**
+ * Duplicate jot detection
+ * Messages are compared after normalisation (case, punctuation and spacing ignored):
+ * equal hashes are exact duplicates, otherwise the overlap of character trigrams
+ * scores how close two messages are.
+ */
+
+import { createHash } from 'crypto';
+import { DuplicateCluster, JotEntry } from './types.js';
+
+/**
+ * Lower-case words separated by single spaces, without punctuation
+ */
+export function normalizeMessage(message: string): string {
+  return (message.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(' ');
+}
+
+/**
+ * Hash of the normalised message, equal for exact duplicates
+ */
+export function messageHash(message: string): string {
+  return hashNormalized(normalizeMessage(message));
+}
+
+/**
+ * Similarity of two messages from 0 to 1 (Dice coefficient of their character trigrams)
+ */
+export function messageSimilarity(a: string, b: string): number {
+  return similarity(profile(a), profile(b));
+}
+
+/**
+ * The most similar jot at or above the threshold, if any.
+ * A jot with the same hash is an exact duplicate.
+ */
+export function findDuplicate<T extends { message: string }>(
+  message: string,
+  jots: T[],
+  threshold: number
+): { jot: T; similarity: number } | null {
+  const target = profile(message);
+  const candidates = jots.map((jot) => ({ jot, profile: profile(jot.message) }));
+  const exact = candidates.find((candidate) => candidate.profile.hash === target.hash);
+  if (exact) {
+    return { jot: exact.jot, similarity: 1 };
+  }
+
+  let best: { jot: T; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    if (lengthBound(target, candidate.profile) < threshold) continue;
+
+    const score = similarity(target, candidate.profile);
+    if (score >= threshold && (!best || score > best.similarity)) {
+      best = { jot: candidate.jot, similarity: score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Group jots whose messages are at least `threshold` similar, directly or through another jot
+ * of the group. The oldest jot of each group is kept; clusters come oldest first.
+ */
+export function findDuplicateClusters(jots: JotEntry[], threshold: number): DuplicateCluster[] {
+  const sorted = [...jots].sort((a, b) => a.createdAt - b.createdAt || a.id - b.id);
+  const profiles = sorted.map((jot) => profile(jot.message));
+  const parent = sorted.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const similarities = new Map<number, number>(); // Best similarity of each jot to an earlier one
+
+  // Exact duplicates share a hash; only the first jot of each hash is compared further
+  const firstByHash = new Map<string, number>();
+  profiles.forEach((current, index) => {
+    const first = firstByHash.get(current.hash);
+    if (first === undefined) {
+      firstByHash.set(current.hash, index);
+    } else {
+      parent[root(index)] = root(first);
+      similarities.set(sorted[index].id, 1);
+    }
+  });
+
+  // Two messages this similar share at least one of the rarest trigrams of each (prefix filter),
+  // so only those pairs are scored
+  const distinct = [...firstByHash.values()];
+  const tokens = distinct.map((index) => tokensOf(profiles[index]));
+  const frequency = new Map<string, number>();
+  for (const token of tokens.flat()) {
+    frequency.set(token, (frequency.get(token) ?? 0) + 1);
+  }
+  const postings = new Map<string, number[]>();
+  distinct.forEach((a, position) => {
+    const rarest = tokens[position].sort(
+      (x, y) => frequency.get(x)! - frequency.get(y)! || (x < y ? -1 : x > y ? 1 : 0)
+    );
+    const minOverlap = Math.ceil((threshold * rarest.length) / (2 - threshold) - 1e-9);
+    const prefix = rarest.slice(0, Math.max(rarest.length - minOverlap + 1, 1));
+
+    const candidates = new Set(prefix.flatMap((token) => postings.get(token) ?? []));
+    for (const token of prefix) {
+      const posting = postings.get(token);
+      if (posting) {
+        posting.push(a);
+      } else {
+        postings.set(token, [a]);
+      }
+    }
+    for (const b of candidates) {
+      if (lengthBound(profiles[a], profiles[b]) < threshold) continue;
+      const score = similarity(profiles[a], profiles[b]);
+      if (score < threshold) continue;
+
+      parent[root(Math.max(a, b))] = root(Math.min(a, b));
+      const later = sorted[Math.max(a, b)].id;
+      similarities.set(later, Math.max(similarities.get(later) ?? 0, score));
+    }
+  });
+
+  const clusters = new Map<number, DuplicateCluster>();
+  sorted.forEach((jot, index) => {
+    const cluster = clusters.get(root(index));
+    if (!cluster) {
+      clusters.set(root(index), { keep: jot, duplicates: [] });
+    } else {
+      cluster.duplicates.push({ jot, similarity: similarities.get(jot.id) ?? threshold });
+    }
+  });
+  return [...clusters.values()].filter((cluster) => cluster.duplicates.length > 0);
+}
+
+/**
+ * A message prepared for comparison: normalised once, with its hash and trigram counts
+ */
+interface MessageProfile {
+  hash: string;
+  length: number;
+  trigrams: Map<string, number>;
+}
+
+function profile(message: string): MessageProfile {
+  const normalized = normalizeMessage(message);
+  return {
+    hash: hashNormalized(normalized),
+    length: Math.max(normalized.length, 1),
+    trigrams: trigrams(normalized),
+  };
+}
+
+function hashNormalized(normalized: string): string {
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+function similarity(left: MessageProfile, right: MessageProfile): number {
+  if (left.hash === right.hash) {
+    return 1;
+  }
+  let shared = 0;
+  for (const [trigram, count] of left.trigrams) {
+    shared += Math.min(count, right.trigrams.get(trigram) ?? 0);
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Trigrams as distinct tokens, repeated ones numbered (`abc#1`, `abc#2`), so shared tokens
+ * count shared trigrams
+ */
+function tokensOf(profile: MessageProfile): string[] {
+  return [...profile.trigrams].flatMap(([trigram, count]) =>
+    Array.from({ length: count }, (_, index) => `${trigram}#${index + 1}`)
+  );
+}
+
+/**
+ * Highest similarity two messages of these lengths can reach (all trigrams of the shorter one shared)
+ */
+function lengthBound(left: MessageProfile, right: MessageProfile): number {
+  return (2 * Math.min(left.length, right.length)) / (left.length + right.length);
+}
+
+function trigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const padded = ` ${text} `;
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    const trigram = padded.slice(i, i + 3);
+    counts.set(trigram, (counts.get(trigram) ?? 0) + 1);
+  }
+  return counts;
+}
@@ -0,0 +1,102 @@
+/**
+ * Embeddings for semantic search
+ * A provider turns text into a fixed-size vector; jots whose vectors point the
+ * same way as the query's (cosine similarity) are about the same thing.
+ */
+
+/**
+ * Turns text into vectors. Providers must be deterministic: the same text
+ * always gives the same vector, so stored vectors stay comparable.
+ */
+export interface EmbeddingProvider {
+  readonly id: string; // Stored with each vector; vectors of another provider are recomputed
+  readonly dimensions: number;
+  embed(text: string): Float32Array;
+}
+
+/**
+ * Offline provider hashing words and character trigrams into a fixed number of buckets.
+ * Trigrams let related word forms (`renew`, `renewal`) overlap without a model.
+ */
+export class HashedNgramEmbedding implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(readonly dimensions = 512) {
+    this.id = `hashed-ngram-${dimensions}`;
+  }
+
+  embed(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const word of words) {
+      this.add(vector, `w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.add(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  /**
+   * Add a feature to its bucket; a second hash bit picks the sign so collisions tend to cancel out
+   */
+  private add(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+  }
+}
+
+/**
+ * Cosine similarity of two vectors of the same length (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Store a vector as a BLOB
+ */
+export function encodeVector(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * Read a vector stored as a BLOB
+ */
+export function decodeVector(blob: Buffer): Float32Array {
+  const bytes = Uint8Array.prototype.slice.call(blob);
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength / Float32Array.BYTES_PER_ELEMENT);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -2,10 +2,39 @@
  * Output formatting utilities for consistent, readable display
  */
 
-import { Context, JotEntry } from './types.js';
+import {
+  Context,
+  DuplicateCluster,
+  JotEntry,
+  JotLink,
+  JotRevision,
+  LinkRelation,
+  LinkedJots,
+  MetadataFilter,
+  UsageCount,
+} from './types.js';
+import { formatAnchor } from './anchors.js';
 
 // Removed SEPARATOR - Claude Code doesn't render it well
 
+/**
+ * Relations as seen from the jot a link points at
+ */
+const INCOMING_RELATIONS: Record<LinkRelation, string> = {
+  'relates-to': 'relates-to',
+  blocks: 'blocked-by',
+  supersedes: 'superseded-by',
+  'follow-up': 'followed-up-by',
+};
+
+/**
+ * Format a link as seen from its jot, e.g. `supersedes#12` or `blocked-by#7`
+ */
+function formatLink(link: JotLink): string {
+  const relation = link.direction === 'outgoing' ? link.relation : INCOMING_RELATIONS[link.relation];
+  return `${relation}#${link.jotId}`;
+}
+
 /**
  * Format a timestamp as a short date string
  */
@@ -21,6 +50,7 @@ function formatDate(timestamp: number): string {
  * Format a single jot entry for display
  * Minimal format - Claude will reformat for the user
  * Using [ID] format to avoid auto-numbering confusion
+ * Pin, priority and status are only shown when they differ from the defaults
  */
 export function formatJotEntry(
   jot: JotEntry,
@@ -33,17 +63,48 @@ export function formatJotEntry(
   if (showContext && contextName) {
     metadata.push(`ctx:${contextName}`);
   }
+  if (jot.pinned) {
+    metadata.push('pinned');
+  }
+  if (jot.priority !== 'normal') {
+    metadata.push(`priority:${jot.priority}`);
+  }
+  if (jot.status !== 'open') {
+    metadata.push(`status:${jot.status}`);
+  }
+  if (jot.progress) {
+    metadata.push(`progress:${jot.progress.closed}/${jot.progress.total}`);
+  }
+  if (jot.parentId !== null) {
+    metadata.push(`parent:${jot.parentId}`);
+  }
   if (jot.tags.length > 0) {
     metadata.push(`tags:${jot.tags.join(',')}`);
   }
+  if (jot.links.length > 0) {
+    metadata.push(`links:${jot.links.map(formatLink).join(',')}`);
+  }
+  if (jot.anchors.length > 0) {
+    metadata.push(`at:${jot.anchors.map(formatAnchor).join(',')}`);
+  }
   metadata.push(`created:${formatDate(jot.createdAt)}`);
+  if (jot.completedAt !== null) {
+    metadata.push(`completed:${formatDate(jot.completedAt)}`);
+  }
+  if (jot.deletedAt !== null) {
+    metadata.push(`deleted:${formatDate(jot.deletedAt)}`);
+  }
+  if (jot.archivedAt !== null) {
+    metadata.push(`archived:${formatDate(jot.archivedAt)}`);
+  }
   if (jot.expiresAt === null) {
     metadata.push('permanent');
   } else {
     metadata.push(`expires:${formatDate(jot.expiresAt)}`);
   }
 
-  return `[${jot.id}] ${jot.message}\n    ${metadata.join(' | ')}`;
+  // Searches show the matched excerpt instead of the full message
+  return `[${jot.id}] ${jot.snippet ?? jot.message}\n    ${metadata.join(' | ')}`;
 }
 
 /**
@@ -60,12 +121,56 @@ export function formatJotList(
     return `${headerText}\nNo jots.`;
   }
 
-  const lines = jots.map((jot, index) => {
+  // Expanded child jots are indented under their parent
+  let count = 0;
+  const format = (jot: JotEntry, index: number, depth: number): string[] => {
+    count++;
     const contextName = getContextName(jot.contextId);
-    return formatJotEntry(jot, index, showContext, contextName);
+    const entry = formatJotEntry(jot, index, showContext && depth === 0, contextName)
+      .split('\n')
+      .map((line) => '  '.repeat(depth) + line)
+      .join('\n');
+    return [entry, ...(jot.children ?? []).flatMap((child, i) => format(child, i, depth + 1))];
+  };
+  const lines = jots.flatMap((jot, index) => format(jot, index, 0));
+
+  return `${headerText}\n\n${lines.join('\n')}\n\n${count} jot${count !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Format a timestamp as a short date and time string
+ */
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'numeric',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Format the revision history of a jot
+ * Each entry shows the version as it was before the change
+ */
+export function formatRevisionList(jotId: number, revisions: JotRevision[]): string {
+  const headerText = `History of jot ${jotId}`;
+  if (revisions.length === 0) {
+    return `${headerText}\nNo revisions.`;
+  }
+
+  const lines = revisions.map((revision) => {
+    const { snapshot } = revision;
+    const details = [`by:${revision.source}`, formatDateTime(revision.createdAt)];
+    if (snapshot.tags.length > 0) {
+      details.push(`tags:${snapshot.tags.join(',')}`);
+    }
+    details.push(`status:${snapshot.status}`);
+    return `[r${revision.id}] ${revision.action}: ${snapshot.message}\n    ${details.join(' | ')}`;
   });
 
-  return `${headerText}\n\n${lines.join('\n')}\n\n${jots.length} jot${jots.length !== 1 ? 's' : ''}`;
+  return `${headerText} (newest first, showing previous versions)\n\n${lines.join('\n')}\n\n${revisions.length} revision${revisions.length !== 1 ? 's' : ''}`;
 }
 
 /**
@@ -75,19 +180,32 @@ export function formatJotList(
 export function formatContextEntry(
   context: Context,
   _index: number,
-  isCurrent: boolean
+  isCurrent: boolean,
+  depth = 0,
+  totalJots = context.jotCount
 ): string {
   const currentMarker = isCurrent ? ' *' : '';
+  const indent = '  '.repeat(depth);
 
   // Build compact metadata
   const metadata: string[] = [];
+  if (context.status === 'archived') {
+    metadata.push('archived');
+  }
   if (context.repository) {
     metadata.push(`repo:${context.repository}`);
   }
-  metadata.push(`${context.jotCount}j`);
+  if (context.defaultTtlDays !== null) {
+    metadata.push(context.defaultTtlDays === 0 ? 'ttl:permanent' : `ttl:${context.defaultTtlDays}d`);
+  }
+  if (context.defaultTags.length > 0) {
+    metadata.push(`default-tags:${context.defaultTags.join(',')}`);
+  }
+  metadata.push(totalJots !== context.jotCount ? `${context.jotCount}j (${totalJots}j total)` : `${context.jotCount}j`);
   metadata.push(`updated:${formatDate(context.updatedAt)}`);
 
-  return `${context.name}${currentMarker}\n   ${metadata.join(' | ')}`;
+  const description = context.description ? `\n${indent}   ${context.description}` : '';
+  return `${indent}${context.name}${currentMarker}\n${indent}   ${metadata.join(' | ')}${description}`;
 }
 
 /**
@@ -102,10 +220,30 @@ export function formatContextList(
     return 'No contexts. Create a jot to start.';
   }
 
-  const lines = contexts.map((context, index) => {
+  // Child contexts are listed under their parent, with counts rolled up
+  const listed = new Set(contexts.map((c) => c.id));
+  const children = new Map<number, Context[]>();
+  for (const context of contexts) {
+    if (context.parentId !== null && listed.has(context.parentId)) {
+      children.set(context.parentId, [...(children.get(context.parentId) ?? []), context]);
+    }
+  }
+  const rollup = (context: Context): number =>
+    (children.get(context.id) ?? []).reduce((sum, child) => sum + rollup(child), context.jotCount);
+
+  const lines: string[] = [];
+  const visit = (context: Context, depth: number) => {
     const isCurrent = context.name === currentContextName;
-    return formatContextEntry(context, index, isCurrent);
-  });
+    lines.push(formatContextEntry(context, lines.length, isCurrent, depth, rollup(context)));
+    for (const child of children.get(context.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  for (const context of contexts) {
+    if (context.parentId === null || !listed.has(context.parentId)) {
+      visit(context, 0);
+    }
+  }
 
   const totalJots = contexts.reduce((sum, c) => sum + c.jotCount, 0);
 
@@ -117,16 +255,113 @@ export function formatContextList(
  */
 export function formatSearchCriteria(options: {
   query?: string;
+  mode?: string;
   tags?: string[];
+  tagMode?: string;
+  excludeTags?: string[];
+  metadata?: MetadataFilter[];
+  path?: string;
+  status?: string[];
+  priority?: string[];
+  pinned?: boolean;
   fromDate?: number;
   toDate?: number;
+  archived?: boolean;
+  orderBy?: string;
 }): string {
   const criteria: string[] = [];
 
   if (options.query) criteria.push(`query: "${options.query}"`);
-  if (options.tags && options.tags.length > 0) criteria.push(`tags: ${options.tags.join(', ')}`);
+  if (options.mode && options.mode !== 'keyword') criteria.push(options.mode);
+  if (options.tags && options.tags.length > 0) {
+    criteria.push(`tags: ${options.tags.join(options.tagMode === 'all' ? ' + ' : ', ')}`);
+  }
+  if (options.excludeTags && options.excludeTags.length > 0) criteria.push(`not tags: ${options.excludeTags.join(', ')}`);
+  if (options.metadata && options.metadata.length > 0) {
+    const filters = options.metadata.map((f) =>
+      f.value === undefined ? `${f.key}=*` : `${f.key}=${f.value}${f.prefix ? '*' : ''}`
+    );
+    criteria.push(`meta: ${filters.join(', ')}`);
+  }
+  if (options.path) criteria.push(`path: ${options.path}`);
+  if (options.status && options.status.length > 0) criteria.push(`status: ${options.status.join(', ')}`);
+  if (options.priority && options.priority.length > 0) criteria.push(`priority: ${options.priority.join(', ')}`);
+  if (options.pinned !== undefined) criteria.push(options.pinned ? 'pinned' : 'unpinned');
   if (options.fromDate) criteria.push(`from: ${formatDate(options.fromDate)}`);
   if (options.toDate) criteria.push(`to: ${formatDate(options.toDate)}`);
+  if (options.archived) criteria.push('archived');
+  if (options.orderBy) criteria.push(`by ${options.orderBy}`);
 
   return criteria.length > 0 ? ` (${criteria.join(', ')})` : '';
 }
+
+/**
+ * Format metadata keys, or the values of one key, with their jot counts
+ */
+export function formatMetadataCounts(counts: UsageCount[], key?: string): string {
+  const headerText = key !== undefined ? `Metadata values of ${key}` : 'Metadata keys';
+  return formatUsageCounts(counts, headerText, key !== undefined ? 'value' : 'key', 'No metadata.');
+}
+
+/**
+ * Format tags with their jot counts
+ */
+export function formatTagCounts(counts: UsageCount[], contextName?: string): string {
+  const headerText = contextName ? `Tags in ${contextName}` : 'Tags';
+  return formatUsageCounts(counts, headerText, 'tag', 'No tags.');
+}
+
+function formatUsageCounts(counts: UsageCount[], headerText: string, noun: string, emptyText: string): string {
+  if (counts.length === 0) {
+    return `${headerText}\n${emptyText}`;
+  }
+
+  const lines = counts.map((count) => `${count.name} (${count.jotCount}j)`);
+  return `${headerText}\n\n${lines.join('\n')}\n\n${counts.length} ${noun}${counts.length !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Format a jot followed by the jots linked to it
+ */
+export function formatLinkedJots(
+  linked: LinkedJots,
+  getContextName: (contextId: number) => string | undefined
+): string {
+  const { jot, neighbours } = linked;
+  const entry = formatJotEntry(jot, 0, true, getContextName(jot.contextId));
+  if (neighbours.length === 0) {
+    return `${entry}\n\nNo linked jots.`;
+  }
+  return `${entry}\n\n${formatJotList(neighbours, 'Linked jots', true, getContextName)}`;
+}
+
+/**
+ * Format a duplicate similarity (1 is an exact duplicate)
+ */
+export function formatSimilarity(similarity: number): string {
+  return similarity >= 1 ? 'exact' : `${Math.floor(similarity * 100)}% similar`;
+}
+
+/**
+ * Format duplicate clusters: the kept jot, then its duplicates indented below it
+ */
+export function formatDuplicateClusters(
+  clusters: DuplicateCluster[],
+  dryRun: boolean,
+  getContextName: (contextId: number) => string | undefined
+): string {
+  const headerText = dryRun ? 'Duplicates' : 'Merged duplicates';
+  if (clusters.length === 0) {
+    return `${headerText}\nNo duplicates.`;
+  }
+
+  const blocks = clusters.map((cluster) => {
+    const lines = cluster.duplicates.map(
+      ({ jot, similarity }) => `  - [${jot.id}] ${jot.message} (${formatSimilarity(similarity)})`
+    );
+    return [formatJotEntry(cluster.keep, 0, true, getContextName(cluster.keep.contextId)), ...lines].join('\n');
+  });
+  const count = clusters.reduce((sum, cluster) => sum + cluster.duplicates.length, 0);
+  const footer = `${clusters.length} cluster${clusters.length !== 1 ? 's' : ''}, ${count} duplicate${count !== 1 ? 's' : ''}${dryRun ? '' : ' moved to the trash'}`;
+  return `${headerText}\n\n${blocks.join('\n\n')}\n\n${footer}`;
+}
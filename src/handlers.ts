@@ -3,13 +3,42 @@
  * Business logic for handling tool requests
  */
 
+import { readFileSync, writeFileSync } from 'fs';
 import { JotService } from './service.js';
-import { JotEntry } from './types.js';
+import {
+  CHILD_ACTIONS,
+  CodeAnchor,
+  CONTEXT_STATUSES,
+  DUPLICATE_ACTIONS,
+  ExportFormat,
+  ImportStrategy,
+  JOT_PRIORITIES,
+  JOT_ORDERS,
+  JOT_STATUSES,
+  JotEntry,
+  JotStatus,
+  LINK_RELATIONS,
+  MarkdownGroupBy,
+  SEARCH_MODES,
+  TAG_MODES,
+  UpdateJotOptions,
+} from './types.js';
 import {
   formatJotList,
   formatContextList,
+  formatContextEntry,
+  formatRevisionList,
+  formatMetadataCounts,
+  formatTagCounts,
   formatSearchCriteria,
+  formatDuplicateClusters,
+  formatLinkedJots,
+  formatSimilarity,
 } from './formatters.js';
+import { parseMetadataFilter } from './query.js';
+import { EXPORT_FORMATS, IMPORT_STRATEGIES, parseExport, serializeExport } from './transfer.js';
+import { MARKDOWN_GROUPINGS } from './markdown.js';
+import { toDirectoryPath } from './context-detection.js';
 
 /**
  * Operation constants
@@ -18,13 +47,67 @@ const JotOperations = {
   CREATE: 'create',
   UPDATE: 'update',
   DELETE: 'delete',
+  COMPLETE: 'complete',
+  REOPEN: 'reopen',
+  HISTORY: 'history',
+  REVERT: 'revert',
+  UNDO: 'undo',
+  RESTORE: 'restore',
+  RENEW: 'renew',
+  MOVE: 'move',
+  GET: 'get',
+  LINK: 'link',
+  UNLINK: 'unlink',
 } as const;
 
 const ContextOperations = {
   LIST: 'list',
   DELETE: 'delete',
+  RESTORE: 'restore',
+  MERGE: 'merge',
+  RENAME: 'rename',
+  UPDATE: 'update',
+} as const;
+
+const TagOperations = {
+  LIST: 'list',
+  RENAME: 'rename',
+  DELETE: 'delete',
 } as const;
 
+const TransferOperations = {
+  EXPORT: 'export',
+  IMPORT: 'import',
+} as const;
+
+/**
+ * Parse an enum argument (single value or list) and validate it
+ */
+function parseChoices<T extends string>(value: unknown, allowed: readonly T[], name: string): T[] {
+  const values = (Array.isArray(value) ? value : [value]) as string[];
+  for (const v of values) {
+    if (!allowed.includes(v as T)) {
+      throw new Error(`Unknown ${name}: ${v} (expected ${allowed.join('/')})`);
+    }
+  }
+  return values as T[];
+}
+
+/**
+ * Parse a jot ID argument
+ */
+function parseId(value: unknown): number {
+  return typeof value === 'string' ? parseInt(value, 10) : (value as number);
+}
+
+/**
+ * Parse the client's working directory (`cwd` or `workspaceRoot`), if given
+ */
+function parseCwd(args: any): string | undefined {
+  const value = args?.cwd ?? args?.workspaceRoot;
+  return value !== undefined ? toDirectoryPath(value as string) : undefined;
+}
+
 /**
  * Format expiry date for display
  */
@@ -52,6 +135,28 @@ export class ToolHandlers {
         return this.handleJotUpdate(args);
       case JotOperations.DELETE:
         return this.handleJotDelete(args);
+      case JotOperations.COMPLETE:
+        return this.handleJotStatusChange(args, 'done');
+      case JotOperations.REOPEN:
+        return this.handleJotStatusChange(args, 'open');
+      case JotOperations.HISTORY:
+        return this.handleJotHistory(args);
+      case JotOperations.REVERT:
+        return this.handleJotRevert(args);
+      case JotOperations.UNDO:
+        return this.handleJotUndo(args);
+      case JotOperations.RESTORE:
+        return this.handleJotRestore(args);
+      case JotOperations.RENEW:
+        return this.handleJotRenew(args);
+      case JotOperations.MOVE:
+        return this.handleJotMove(args);
+      case JotOperations.GET:
+        return this.handleJotGet(args);
+      case JotOperations.LINK:
+        return this.handleJotLink(args);
+      case JotOperations.UNLINK:
+        return this.handleJotUnlink(args);
       default:
         throw new Error(`Unknown operation: ${operation}`);
     }
@@ -64,15 +169,36 @@ export class ToolHandlers {
     const jot = this.service.createJot({
       message: args.message as string,
       contextName: args.contextName as string | undefined,
+      cwd: parseCwd(args),
       ttlDays: args.ttlDays as number | undefined,
+      status: args.status !== undefined ? parseChoices(args.status, JOT_STATUSES, 'status')[0] : undefined,
+      priority:
+        args.priority !== undefined ? parseChoices(args.priority, JOT_PRIORITIES, 'priority')[0] : undefined,
+      pinned: args.pinned as boolean | undefined,
       tags: (args.tags as string[]) || [],
       metadata: (args.metadata as Record<string, string>) || {},
+      parentId: args.parentId !== undefined ? parseId(args.parentId) : undefined,
+      anchors: args.anchors as CodeAnchor[] | undefined,
+      onDuplicate:
+        args.onDuplicate !== undefined ? parseChoices(args.onDuplicate, DUPLICATE_ACTIONS, 'onDuplicate')[0] : undefined,
     });
 
     const context = this.service.getContext(jot.contextId);
     const expiryInfo = jot.expiresAt ? `exp:${formatExpiryDate(jot.expiresAt)}` : 'permanent';
-
-    return `Jotted to: ${context?.name}\nID:${jot.id} | ${expiryInfo}${jot.tags.length > 0 ? ` | tags:${jot.tags.join(',')}` : ''}`;
+    const statusInfo = jot.status !== 'open' ? ` | status:${jot.status}` : '';
+    const priorityInfo = jot.priority !== 'normal' ? ` | priority:${jot.priority}` : '';
+    const pinnedInfo = jot.pinned ? ' | pinned' : '';
+    const details = `ID:${jot.id} | ${expiryInfo}${statusInfo}${priorityInfo}${pinnedInfo}${jot.tags.length > 0 ? ` | tags:${jot.tags.join(',')}` : ''}`;
+
+    // An existing duplicate is either returned instead (reuse) or pointed out
+    const duplicate = jot.duplicate;
+    if (duplicate?.jotId === jot.id) {
+      return `Already jotted in: ${context?.name} (${formatSimilarity(duplicate.similarity)})\n${details}`;
+    }
+    const duplicateInfo = duplicate
+      ? `\nSimilar to ID:${duplicate.jotId} (${formatSimilarity(duplicate.similarity)}); run dedupe to merge`
+      : '';
+    return `Jotted to: ${context?.name}\n${details}${duplicateInfo}`;
   }
 
   /**
@@ -83,9 +209,17 @@ export class ToolHandlers {
 
     switch (operation) {
       case ContextOperations.LIST:
-        return this.handleContextList();
+        return this.handleContextList(args);
       case ContextOperations.DELETE:
         return this.handleContextDelete(args);
+      case ContextOperations.RESTORE:
+        return this.handleContextRestore(args);
+      case ContextOperations.MERGE:
+        return this.handleContextMerge(args);
+      case ContextOperations.RENAME:
+        return this.handleContextRename(args);
+      case ContextOperations.UPDATE:
+        return this.handleContextUpdate(args);
       default:
         throw new Error(`Unknown operation: ${operation}`);
     }
@@ -94,12 +228,12 @@ export class ToolHandlers {
   /**
    * Handle list contexts
    */
-  private handleContextList(): string {
+  private handleContextList(args: any): string {
     // Cleanup expired jots automatically (async, non-blocking)
     setImmediate(() => this.service.cleanupExpired());
 
-    const contexts = this.service.listContexts();
-    const currentContext = this.service.detectCurrentContext();
+    const contexts = this.service.listContexts(args?.includeArchived === true);
+    const currentContext = this.service.detectCurrentContext(parseCwd(args));
     return formatContextList(contexts, currentContext);
   }
 
@@ -109,10 +243,59 @@ export class ToolHandlers {
   private handleContextDelete(args: any): string {
     const deleted = this.service.deleteContext(args.context as string);
     return deleted
-      ? `Deleted context: ${args.context}`
+      ? `Moved context to trash: ${args.context} (restorable for ${this.service.getConfig().cleanup.trashRetentionDays} days)`
       : `Context not found: ${args.context}`;
   }
 
+  /**
+   * Handle restore context from trash
+   */
+  private handleContextRestore(args: any): string {
+    const restored = this.service.restoreContext(args.context as string);
+    return restored
+      ? `Restored context: ${args.context}`
+      : `Context not in trash: ${args.context}`;
+  }
+
+  /**
+   * Handle merging a context (default: the current one) into a target, or into its parent
+   */
+  private handleContextMerge(args: any): string {
+    const name = (args.context as string | undefined) ?? this.service.detectCurrentContext(parseCwd(args));
+    const { target, moved, duplicates } = args.target
+      ? this.service.mergeContexts(name, args.target as string)
+      : this.service.mergeIntoParent(name);
+
+    const duplicateInfo = duplicates > 0 ? `, folded ${duplicates} duplicate${duplicates !== 1 ? 's' : ''}` : '';
+    return `Merged ${name} into ${target.name}: moved ${moved} jot${moved !== 1 ? 's' : ''}${duplicateInfo}`;
+  }
+
+  /**
+   * Handle updating a context's description, status or jot defaults (default: the current context)
+   */
+  private handleContextUpdate(args: any): string {
+    const name = (args.context as string | undefined) ?? this.service.detectCurrentContext(parseCwd(args));
+    const updated = this.service.updateContext(name, {
+      description: args.description as string | null | undefined,
+      status: args.status !== undefined ? parseChoices(args.status, CONTEXT_STATUSES, 'status')[0] : undefined,
+      defaultTtlDays: args.defaultTtlDays as number | null | undefined,
+      defaultTags: args.defaultTags as string[] | undefined,
+    });
+
+    return `Updated context: ${updated.name}\n${formatContextEntry(updated, 0, false)}`;
+  }
+
+  /**
+   * Handle renaming a context
+   */
+  private handleContextRename(args: any): string {
+    if (!args.context || !args.newName) {
+      throw new Error('context and newName are required for rename');
+    }
+    const renamed = this.service.renameContext(args.context as string, args.newName as string);
+    return `Renamed context: ${args.context} -> ${renamed.name}`;
+  }
+
   /**
    * Handle list/search jots (unified)
    */
@@ -120,8 +303,27 @@ export class ToolHandlers {
     // Cleanup expired jots automatically (async, non-blocking)
     setImmediate(() => this.service.cleanupExpired());
 
+    if (args?.trash) {
+      return this.handleJotsTrash(args);
+    }
+    if (args?.expiringDays !== undefined) {
+      return this.handleJotsExpiring(args);
+    }
+
     // Check if this is a search (has search filters) or simple list
-    const hasSearchFilters = args?.query || args?.tags || args?.fromDate || args?.toDate;
+    const hasSearchFilters =
+      args?.query ||
+      args?.tags ||
+      args?.excludeTags ||
+      args?.metadata ||
+      args?.status ||
+      args?.priority ||
+      args?.pinned !== undefined ||
+      args?.fromDate ||
+      args?.toDate ||
+      args?.archived ||
+      args?.path ||
+      args?.orderBy;
 
     if (hasSearchFilters) {
       // Search mode
@@ -141,33 +343,89 @@ export class ToolHandlers {
     let showContext = false;
 
     // Check if user wants all contexts
+    // Only top-level jots; child jots are nested under them with expand
     if (args.context === '*' || args.context === 'all') {
-      jots = this.service.searchJots({ limit: args.limit as number });
+      jots = this.service.searchJots({ limit: args.limit as number, topLevel: true });
       headerText = 'All Contexts';
       showContext = true;
     } else if (args.context) {
       // Specific context requested
-      jots = this.service.getContextJots(args.context as string, args.limit as number);
+      jots = this.service.getContextJots(
+        args.context as string,
+        args.limit as number,
+        args.includeDescendants === true,
+        true
+      );
       headerText = `Context: ${args.context}`;
     } else {
       // Default: use current context
-      const currentContext = this.service.detectCurrentContext();
+      const currentContext = this.service.detectCurrentContext(parseCwd(args));
       try {
-        jots = this.service.getContextJots(currentContext, args.limit as number);
+        jots = this.service.getContextJots(currentContext, args.limit as number, false, true);
         headerText = `Context: ${currentContext}`;
       } catch {
         // Context doesn't exist yet, show all
-        jots = this.service.searchJots({ limit: args.limit as number });
+        jots = this.service.searchJots({ limit: args.limit as number, topLevel: true });
         headerText = `No jots in: ${currentContext}`;
         showContext = true;
       }
     }
+    if (args.expand === true) {
+      jots = this.service.expandJots(jots);
+    }
 
     return formatJotList(jots, headerText, showContext, (contextId) =>
       this.service.getContext(contextId)?.name
     );
   }
 
+  /**
+   * Handle browsing the trash
+   */
+  private handleJotsTrash(args: any): string {
+    let contextId: number | undefined;
+    if (args.context && args.context !== '*' && args.context !== 'all') {
+      const context = this.service.getContext(args.context as string, true);
+      if (!context) {
+        return `Context not found: ${args.context}`;
+      }
+      contextId = context.id;
+    }
+
+    const jots = this.service.searchJots({
+      contextId,
+      trash: true,
+      limit: args.limit as number | undefined,
+    });
+
+    return formatJotList(
+      jots,
+      `Trash (restorable for ${this.service.getConfig().cleanup.trashRetentionDays} days after deletion)`,
+      true,
+      (id) => this.service.getContext(id, true)?.name
+    );
+  }
+
+  /**
+   * Handle listing jots that expire within N days
+   */
+  private handleJotsExpiring(args: any): string {
+    const days = Number(args.expiringDays);
+    const context =
+      args.context && args.context !== '*' && args.context !== 'all'
+        ? (args.context as string)
+        : undefined;
+
+    let jots = this.service.getExpiringSoon(days, context);
+    if (args.limit) {
+      jots = jots.slice(0, args.limit as number);
+    }
+
+    return formatJotList(jots, `Expiring within ${days} days`, true, (contextId) =>
+      this.service.getContext(contextId)?.name
+    );
+  }
+
   /**
    * Handle jots search with filters
    */
@@ -181,15 +439,33 @@ export class ToolHandlers {
 
     const searchOptions = {
       query: args?.query as string | undefined,
+      mode: args?.mode ? parseChoices(args.mode, SEARCH_MODES, 'mode')[0] : undefined,
       contextId,
+      includeDescendants: args?.includeDescendants as boolean | undefined,
       tags: args?.tags as string[] | undefined,
+      tagMode: args?.tagMode ? parseChoices(args.tagMode, TAG_MODES, 'tagMode')[0] : undefined,
+      excludeTags: args?.excludeTags as string[] | undefined,
+      metadata: args?.metadata
+        ? Object.entries(args.metadata as Record<string, string>).map(([key, pattern]) =>
+            parseMetadataFilter(key, String(pattern))
+          )
+        : undefined,
+      status: args?.status ? parseChoices(args.status, JOT_STATUSES, 'status') : undefined,
+      priority: args?.priority ? parseChoices(args.priority, JOT_PRIORITIES, 'priority') : undefined,
+      pinned: args?.pinned as boolean | undefined,
       fromDate: args?.fromDate ? new Date(args.fromDate as string).getTime() : undefined,
       toDate: args?.toDate ? new Date(args.toDate as string).getTime() : undefined,
       includeExpired: args?.includeExpired as boolean | undefined,
+      archived: args?.archived as boolean | undefined,
+      orderBy: args?.orderBy ? parseChoices(args.orderBy, JOT_ORDERS, 'orderBy')[0] : undefined,
+      path: args?.path as string | undefined,
       limit: args?.limit as number | undefined,
     };
 
-    const jots = this.service.searchJots(searchOptions);
+    let jots = this.service.searchJots(searchOptions);
+    if (args?.expand === true) {
+      jots = this.service.expandJots(jots);
+    }
 
     if (jots.length === 0) {
       return 'No jots found.';
@@ -203,16 +479,104 @@ export class ToolHandlers {
     );
   }
 
+  /**
+   * Handle listing metadata keys, or the values of one key
+   */
+  handleMetadata(args: any): string {
+    const context =
+      args?.context && args.context !== '*' && args.context !== 'all' ? (args.context as string) : undefined;
+    const key = args?.key as string | undefined;
+    const counts = this.service.countMetadata(key, context, args?.limit as number | undefined);
+    return formatMetadataCounts(counts, key);
+  }
+
+  /**
+   * Handle finding and merging duplicate jots
+   */
+  handleDedupe(args: any): string {
+    const context =
+      args?.context && args.context !== '*' && args.context !== 'all' ? (args.context as string) : undefined;
+    const dryRun = args?.dryRun === true;
+    const clusters = this.service.dedupeJots({
+      context,
+      threshold: args?.threshold as number | undefined,
+      dryRun,
+    });
+    return formatDuplicateClusters(clusters, dryRun, (contextId) => this.service.getContext(contextId)?.name);
+  }
+
+  /**
+   * Handle listing the jots about a file or directory
+   */
+  handleFileJots(args: any): string {
+    const path = args?.path as string | undefined;
+    if (!path) {
+      throw new Error('path is required');
+    }
+    const context =
+      args?.context && args.context !== '*' && args.context !== 'all' ? (args.context as string) : undefined;
+    const jots = this.service.getJotsForPath(path, context, args?.limit as number | undefined);
+    if (jots.length === 0) {
+      return `No jots for: ${path}`;
+    }
+
+    return formatJotList(jots, `Jots for: ${path}`, true, (contextId) => this.service.getContext(contextId)?.name);
+  }
+
+  /**
+   * Handle tag operations
+   */
+  handleTags(args: any): string {
+    const operation = (args?.operation as string | undefined) ?? TagOperations.LIST;
+
+    switch (operation) {
+      case TagOperations.LIST:
+        return this.handleTagList(args);
+      case TagOperations.RENAME:
+        return this.handleTagRename(args);
+      case TagOperations.DELETE:
+        return this.handleTagDelete(args);
+      default:
+        throw new Error(`Unknown operation: ${operation}`);
+    }
+  }
+
+  /**
+   * Handle listing tags with counts, optionally for one context
+   */
+  private handleTagList(args: any): string {
+    const context =
+      args?.context && args.context !== '*' && args.context !== 'all' ? (args.context as string) : undefined;
+    return formatTagCounts(this.service.countTags(context, args?.limit as number | undefined), context);
+  }
+
+  /**
+   * Handle renaming a tag, or merging it into an existing one
+   */
+  private handleTagRename(args: any): string {
+    if (!args.tag || !args.newName) {
+      throw new Error('tag and newName are required for rename');
+    }
+    const changed = this.service.renameTag(args.tag as string, args.newName as string);
+    return `Renamed tag: ${args.tag} -> ${args.newName} (${changed} jot${changed !== 1 ? 's' : ''})`;
+  }
+
+  /**
+   * Handle removing a tag from all jots
+   */
+  private handleTagDelete(args: any): string {
+    if (!args.tag) {
+      throw new Error('tag is required for delete');
+    }
+    const changed = this.service.deleteTag(args.tag as string);
+    return `Removed tag: ${args.tag} (${changed} jot${changed !== 1 ? 's' : ''})`;
+  }
+
   /**
    * Handle jot update
    */
   private handleJotUpdate(args: any): string {
-    const updates: {
-      message?: string;
-      ttlDays?: number | null;
-      tags?: string[];
-      metadata?: Record<string, string>;
-    } = {};
+    const updates: UpdateJotOptions = {};
 
     if (args.message !== undefined) {
       updates.message = args.message as string;
@@ -220,15 +584,30 @@ export class ToolHandlers {
     if (args.ttlDays !== undefined) {
       updates.ttlDays = args.ttlDays as number;
     }
+    if (args.status !== undefined) {
+      updates.status = parseChoices(args.status, JOT_STATUSES, 'status')[0];
+    }
+    if (args.priority !== undefined) {
+      updates.priority = parseChoices(args.priority, JOT_PRIORITIES, 'priority')[0];
+    }
+    if (args.pinned !== undefined) {
+      updates.pinned = args.pinned as boolean;
+    }
     if (args.tags !== undefined) {
       updates.tags = args.tags as string[];
     }
     if (args.metadata !== undefined) {
       updates.metadata = args.metadata as Record<string, string>;
     }
+    if (args.parentId !== undefined) {
+      // null or an empty string makes the jot top-level again
+      updates.parentId = args.parentId === null || args.parentId === '' ? null : parseId(args.parentId);
+    }
+    if (args.anchors !== undefined) {
+      updates.anchors = args.anchors as CodeAnchor[];
+    }
 
-    const id = typeof args.id === 'string' ? parseInt(args.id, 10) : (args.id as number);
-    const updated = this.service.updateJot(id, updates);
+    const updated = this.service.updateJot(parseId(args.id), updates, 'jot:update');
 
     if (!updated) {
       return `Jot not found: ${args.id}`;
@@ -240,18 +619,220 @@ export class ToolHandlers {
     const changesSummary: string[] = [];
     if (args.message !== undefined) changesSummary.push('msg');
     if (args.ttlDays !== undefined) changesSummary.push('ttl');
+    if (args.status !== undefined) changesSummary.push('status');
+    if (args.priority !== undefined) changesSummary.push('priority');
+    if (args.pinned !== undefined) changesSummary.push('pinned');
     if (args.tags !== undefined) changesSummary.push('tags');
     if (args.metadata !== undefined) changesSummary.push('meta');
+    if (args.parentId !== undefined) changesSummary.push('parent');
+    if (args.anchors !== undefined) changesSummary.push('anchors');
 
-    return `Updated jot (${changesSummary.join(',')})\nID:${args.id} | ctx:${context?.name} | ${expiryInfo}${updated.tags.length > 0 ? ` | tags:${updated.tags.join(',')}` : ''}`;
+    return `Updated jot (${changesSummary.join(',')})\nID:${args.id} | ctx:${context?.name} | ${expiryInfo} | status:${updated.status} | priority:${updated.priority}${updated.pinned ? ' | pinned' : ''}${updated.tags.length > 0 ? ` | tags:${updated.tags.join(',')}` : ''}`;
   }
 
   /**
    * Handle jot deletion
    */
   private handleJotDelete(args: any): string {
-    const id = typeof args.id === 'string' ? parseInt(args.id, 10) : (args.id as number);
-    const deleted = this.service.deleteJot(id);
-    return deleted ? `Deleted jot: ${id}` : `Jot not found: ${id}`;
+    const id = parseId(args.id);
+    const children =
+      args.children !== undefined ? parseChoices(args.children, CHILD_ACTIONS, 'children')[0] : undefined;
+    const deleted = this.service.deleteJot(id, 'jot:delete', children);
+    return deleted ? `Moved jot to trash: ${id}` : `Jot not found: ${id}`;
+  }
+
+  /**
+   * Handle TTL renewal for one or many jots
+   */
+  private handleJotRenew(args: any): string {
+    const rawIds = args.ids !== undefined ? (args.ids as unknown[]) : [args.id];
+    const ids = rawIds.filter((id) => id !== undefined).map(parseId);
+    if (ids.length === 0) {
+      throw new Error('id or ids is required for renew');
+    }
+
+    const renewed = this.service.renewJots(ids, args.ttlDays as number | undefined, 'jot:renew');
+    if (renewed.length === 0) {
+      return `Jots not found: ${ids.join(',')}`;
+    }
+
+    const expiresAt = renewed[0].expiresAt;
+    const expiryInfo = expiresAt ? `exp:${formatExpiryDate(expiresAt)}` : 'permanent';
+    const missing = ids.filter((id) => !renewed.some((jot) => jot.id === id));
+
+    return `Renewed ${renewed.length} jot${renewed.length !== 1 ? 's' : ''} (${expiryInfo})\nIDs:${renewed.map((jot) => jot.id).join(',')}${missing.length > 0 ? ` | not found:${missing.join(',')}` : ''}`;
+  }
+
+  /**
+   * Handle moving a jot to another context
+   */
+  private handleJotMove(args: any): string {
+    if (!args.contextName) {
+      throw new Error('contextName is required for move');
+    }
+    const id = parseId(args.id);
+    const moved = this.service.moveJot(id, args.contextName as string, 'jot:move');
+    return moved ? `Moved jot ${id} to: ${args.contextName}` : `Jot not found: ${id}`;
+  }
+
+  /**
+   * Handle restore jot from trash
+   */
+  private handleJotRestore(args: any): string {
+    const id = parseId(args.id);
+    const restored = this.service.restoreJot(id);
+    return restored ? `Restored jot: ${id}` : `Jot not in trash: ${id}`;
+  }
+
+  /**
+   * Handle showing a jot with its linked jots
+   */
+  private handleJotGet(args: any): string {
+    const depth = args.depth !== undefined ? Number(args.depth) : 1;
+    const linked = this.service.getLinkedJots(parseId(args.id), depth);
+    return formatLinkedJots(linked, (contextId) => this.service.getContext(contextId)?.name);
+  }
+
+  /**
+   * Handle linking a jot to another
+   */
+  private handleJotLink(args: any): string {
+    if (!args.targetId) {
+      throw new Error('targetId is required for link');
+    }
+    const id = parseId(args.id);
+    const targetId = parseId(args.targetId);
+    const relation =
+      args.relation !== undefined ? parseChoices(args.relation, LINK_RELATIONS, 'relation')[0] : 'relates-to';
+    const created = this.service.linkJots(id, targetId, relation);
+    return created ? `Linked: ${id} ${relation} ${targetId}` : `Already linked: ${id} ${relation} ${targetId}`;
+  }
+
+  /**
+   * Handle removing the links between two jots
+   */
+  private handleJotUnlink(args: any): string {
+    if (!args.targetId) {
+      throw new Error('targetId is required for unlink');
+    }
+    const id = parseId(args.id);
+    const targetId = parseId(args.targetId);
+    const relation =
+      args.relation !== undefined ? parseChoices(args.relation, LINK_RELATIONS, 'relation')[0] : undefined;
+    const removed = this.service.unlinkJots(id, targetId, relation);
+    return removed > 0
+      ? `Unlinked ${id} and ${targetId} (${removed} link${removed !== 1 ? 's' : ''})`
+      : `No links between ${id} and ${targetId}`;
+  }
+
+  /**
+   * Handle jot revision history
+   */
+  private handleJotHistory(args: any): string {
+    const id = parseId(args.id);
+    return formatRevisionList(id, this.service.getJotHistory(id));
+  }
+
+  /**
+   * Handle revert to a specific revision
+   */
+  private handleJotRevert(args: any): string {
+    const id = parseId(args.id);
+    const revisionId = parseId(String(args.revision ?? '').replace(/^r/, ''));
+    const jot = this.service.revertJot(id, revisionId, 'jot:revert');
+    return `Reverted jot ${jot.id} to r${revisionId}`;
+  }
+
+  /**
+   * Handle undo of the last change to a jot, or of the last deletion
+   */
+  private handleJotUndo(args: any): string {
+    const id = args.id !== undefined ? parseId(args.id) : undefined;
+    const jot = this.service.undo(id, 'jot:undo');
+    return `Restored jot ${jot.id}: ${jot.message}`;
+  }
+
+  /**
+   * Handle complete/reopen
+   */
+  private handleJotStatusChange(args: any, status: JotStatus): string {
+    const id = parseId(args.id);
+    const updated =
+      status === 'done'
+        ? this.service.completeJot(id, 'jot:complete')
+        : this.service.reopenJot(id, 'jot:reopen');
+    if (!updated) {
+      return `Jot not found: ${id}`;
+    }
+    return status === 'done' ? `Completed jot: ${id}` : `Reopened jot: ${id}`;
+  }
+
+  /**
+   * Handle export/import operations
+   */
+  handleTransfer(args: any): string {
+    const operation = args.operation as string;
+
+    switch (operation) {
+      case TransferOperations.EXPORT:
+        return this.handleExport(args);
+      case TransferOperations.IMPORT:
+        return this.handleImport(args);
+      default:
+        throw new Error(`Unknown operation: ${operation}`);
+    }
+  }
+
+  /**
+   * Handle export, returning the document or writing it to a file
+   */
+  private handleExport(args: any): string {
+    const format = (args.format as string | undefined) || this.service.getConfig(parseCwd(args)).outputFormat;
+
+    let output: string;
+    let summary: string;
+    if (format === 'markdown') {
+      const groupBy = (args.groupBy as MarkdownGroupBy | undefined) || 'tag';
+      if (!MARKDOWN_GROUPINGS.includes(groupBy)) {
+        throw new Error(`Unknown groupBy: ${groupBy}`);
+      }
+      output = this.service.exportMarkdown(args.context as string | undefined, groupBy, parseCwd(args));
+      summary = 'Exported Markdown handoff';
+    } else if (EXPORT_FORMATS.includes(format as ExportFormat)) {
+      const doc = this.service.exportData(args.context as string | undefined);
+      output = serializeExport(doc, format as ExportFormat);
+      summary = `Exported ${doc.jots.length} jots from ${doc.contexts.length} contexts`;
+    } else {
+      throw new Error(`Unknown format: ${format}`);
+    }
+
+    if (args.path) {
+      writeFileSync(args.path as string, output, 'utf-8');
+      return `${summary} to: ${args.path}`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Handle import from inline data or a file
+   */
+  private handleImport(args: any): string {
+    const strategy = (args.strategy as ImportStrategy | undefined) || 'skip';
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown strategy: ${strategy}`);
+    }
+
+    let text: string;
+    if (args.data !== undefined) {
+      text = args.data as string;
+    } else if (args.path) {
+      text = readFileSync(args.path as string, 'utf-8');
+    } else {
+      throw new Error('Either data or path is required for import');
+    }
+
+    const result = this.service.importData(parseExport(text), strategy);
+    return `Imported (strategy:${strategy})\ncreated:${result.created} | updated:${result.updated} | skipped:${result.skipped}`;
   }
 }
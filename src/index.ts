@@ -14,18 +14,24 @@ import {
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  RootsListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { initializeDatabase } from './database.js';
-import { getDatabasePath } from './config.js';
+import { getDatabasePath, loadConfig } from './config.js';
 import { JotRepository } from './repository.js';
+import { HashedNgramEmbedding } from './embeddings.js';
 import { JotService } from './service.js';
 import { ToolHandlers } from './handlers.js';
+import { CLI_COMMANDS, runCli } from './cli.js';
+import { DEFAULT_STRATEGIES, toDirectoryPath } from './context-detection.js';
 
 // Initialize layers
-const db = initializeDatabase(getDatabasePath());
-const repository = new JotRepository(db);
-const service = new JotService(repository);
+const config = loadConfig();
+const db = initializeDatabase(getDatabasePath(config));
+const repository = new JotRepository(db, config.semanticSearch ? new HashedNgramEmbedding() : null);
+// Repo-level settings (.jot.json) follow the client's cwd or workspace root
+const service = new JotService(repository, config, DEFAULT_STRATEGIES, (dir) => loadConfig(dir));
 const handlers = new ToolHandlers(service);
 
 // Create MCP server
@@ -43,6 +49,32 @@ const server = new Server(
   }
 );
 
+/**
+ * Follow the client's workspace: context detection runs in its first root
+ */
+async function syncWorkspaceRoots(): Promise<void> {
+  if (!server.getClientCapabilities()?.roots) {
+    return;
+  }
+  try {
+    const { roots } = await server.listRoots();
+    service.setWorkspaceRoot(roots.length > 0 ? toDirectoryPath(roots[0].uri) : null);
+  } catch (error) {
+    console.error('Failed to read workspace roots:', error);
+  }
+}
+
+server.oninitialized = () => {
+  void syncWorkspaceRoots();
+};
+server.setNotificationHandler(RootsListChangedNotificationSchema, syncWorkspaceRoots);
+
+// Shared by every tool that detects the current context
+const CWD_PROPERTY = {
+  type: 'string',
+  description: 'Client working directory for context detection (path or file:// URI)',
+};
+
 /**
  * Tool definitions
  */
@@ -51,31 +83,82 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     tools: [
       {
         name: 'jot',
-        description: 'Create, update, or delete jots',
+        description: 'Create, update, delete, complete, reopen, or move jots; view history and undo changes',
         inputSchema: {
           type: 'object',
           properties: {
             operation: {
               type: 'string',
-              enum: ['create', 'update', 'delete'],
-              description: 'create/update/delete',
+              enum: [
+                'create',
+                'update',
+                'delete',
+                'complete',
+                'reopen',
+                'history',
+                'revert',
+                'undo',
+                'restore',
+                'renew',
+                'move',
+                'get',
+                'link',
+                'unlink',
+              ],
+              description: 'create/update/delete/complete/reopen/history/revert/undo/restore/renew/move/get/link/unlink (delete moves to trash; undo without id restores last deleted jot; renew extends TTL by ttlDays; move to contextName; get shows linked jots; link/unlink to targetId)',
             },
             id: {
               type: 'string',
               description: 'Jot ID',
             },
+            ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Jot IDs (renew)',
+            },
+            revision: {
+              type: 'string',
+              description: 'Revision ID for revert (from history)',
+            },
+            targetId: {
+              type: 'string',
+              description: 'Jot to link to or unlink from (link, unlink)',
+            },
+            relation: {
+              type: 'string',
+              enum: ['relates-to', 'blocks', 'supersedes', 'follow-up'],
+              description: 'How the jot relates to targetId (link: default relates-to; unlink: default all)',
+            },
+            depth: {
+              type: 'number',
+              description: 'How many links away to follow (get, default 1)',
+            },
             message: {
               type: 'string',
               description: 'Note content',
             },
             contextName: {
               type: 'string',
-              description: 'Context name',
+              description: 'Context name (create, move target)',
             },
             ttlDays: {
               type: 'number',
               description: 'Days until expiration (0 = permanent)',
             },
+            status: {
+              type: 'string',
+              enum: ['open', 'in-progress', 'done', 'dropped'],
+              description: 'Status',
+            },
+            priority: {
+              type: 'string',
+              enum: ['low', 'normal', 'high', 'critical'],
+              description: 'Priority',
+            },
+            pinned: {
+              type: 'boolean',
+              description: 'Pin to top of listings',
+            },
             tags: {
               type: 'array',
               items: { type: 'string' },
@@ -85,6 +168,36 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'object',
               description: 'Metadata',
             },
+            parentId: {
+              type: 'string',
+              description: 'Parent jot ID: make this a child jot (sub-step) in the same context as the parent (create, update; empty string on update makes it top-level)',
+            },
+            anchors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string', description: 'File or directory, relative to the repository root' },
+                  startLine: { type: 'number', description: 'First line' },
+                  endLine: { type: 'number', description: 'Last line (default: startLine)' },
+                  symbol: { type: 'string', description: 'Function, class or other symbol' },
+                  commit: { type: 'string', description: 'Commit SHA the location refers to' },
+                },
+                required: ['path'],
+              },
+              description: 'Code locations the jot is about (create, update; replaces all anchors on update)',
+            },
+            children: {
+              type: 'string',
+              enum: ['orphan', 'delete'],
+              description: 'What to do with child jots on delete: orphan (keep as top-level) or delete (trash too); required when the jot has children',
+            },
+            onDuplicate: {
+              type: 'string',
+              enum: ['create', 'reuse'],
+              description: 'When the context has a jot with the same or a similar message: create anyway and report it, or return the existing jot (create; default from config)',
+            },
+            cwd: CWD_PROPERTY,
           },
           required: ['operation'],
         },
@@ -99,14 +212,65 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Context ("*" = all)',
             },
+            includeDescendants: {
+              type: 'boolean',
+              description: 'Include child (branch) contexts',
+            },
+            expand: {
+              type: 'boolean',
+              description: 'Show child jots nested under their parents (listings show top-level jots only)',
+            },
             query: {
               type: 'string',
-              description: 'Search query',
+              description: 'Search query: words, "phrases", prefix*, OR, -exclude, tag:x context:x before:/after:YYYY-MM-DD meta:key=value',
+            },
+            mode: {
+              type: 'string',
+              enum: ['keyword', 'semantic', 'hybrid'],
+              description: 'How the query matches: keyword (default), semantic (similar meaning) or hybrid (both)',
+            },
+            orderBy: {
+              type: 'string',
+              enum: ['relevance', 'created', 'updated', 'expires'],
+              description: 'Sort order (default: relevance with a query)',
             },
             tags: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Filter by tags',
+              description: 'Filter by tags (`area` also matches `area/db`)',
+            },
+            tagMode: {
+              type: 'string',
+              enum: ['any', 'all'],
+              description: 'Match any (default) or all of the tags',
+            },
+            excludeTags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Skip jots with any of these tags',
+            },
+            metadata: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Filter by metadata: {"pr": "412"} exact, {"path": "src/*"} prefix, {"ticket": "*"} key present',
+            },
+            path: {
+              type: 'string',
+              description: 'Only jots anchored to this file, or to anything under this directory',
+            },
+            status: {
+              type: 'array',
+              items: { type: 'string', enum: ['open', 'in-progress', 'done', 'dropped'] },
+              description: 'Filter by status',
+            },
+            priority: {
+              type: 'array',
+              items: { type: 'string', enum: ['low', 'normal', 'high', 'critical'] },
+              description: 'Filter by priority',
+            },
+            pinned: {
+              type: 'boolean',
+              description: 'Filter by pinned',
             },
             fromDate: {
               type: 'string',
@@ -118,30 +282,211 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             includeExpired: {
               type: 'boolean',
-              description: 'Include expired',
+              description: 'Include expired (and archived)',
+            },
+            archived: {
+              type: 'boolean',
+              description: 'Only archived (expired) jots; renew to bring one back',
+            },
+            trash: {
+              type: 'boolean',
+              description: 'Browse deleted jots in the trash',
+            },
+            expiringDays: {
+              type: 'number',
+              description: 'Only jots expiring within N days',
             },
             limit: {
               type: 'number',
               description: 'Max results',
             },
+            cwd: CWD_PROPERTY,
           },
         },
       },
       {
         name: 'context',
-        description: 'List or delete contexts',
+        description: 'List, update, delete, restore, rename, or merge contexts',
         inputSchema: {
           type: 'object',
           properties: {
             operation: {
               type: 'string',
-              enum: ['list', 'delete'],
-              description: 'list/delete',
+              enum: ['list', 'delete', 'restore', 'merge', 'rename', 'update'],
+              description: 'list/delete/restore/merge/rename/update (delete moves to trash; merge moves jots into target, or into the parent context)',
             },
             context: {
               type: 'string',
-              description: 'Context name',
+              description: 'Context name (merge, update: defaults to current)',
+            },
+            description: {
+              type: 'string',
+              description: 'Goal or summary (update)',
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'archived'],
+              description: 'Archived contexts are hidden from lists (update)',
+            },
+            defaultTtlDays: {
+              type: 'number',
+              description: 'TTL for new jots, 0 = permanent (update)',
             },
+            defaultTags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Tags added to new jots (update)',
+            },
+            includeArchived: {
+              type: 'boolean',
+              description: 'Show archived contexts (list)',
+            },
+            target: {
+              type: 'string',
+              description: 'Context to merge into',
+            },
+            newName: {
+              type: 'string',
+              description: 'New context name (rename)',
+            },
+            cwd: CWD_PROPERTY,
+          },
+          required: ['operation'],
+        },
+      },
+      {
+        name: 'tags',
+        description: 'List tags with counts, rename/merge a tag, or remove it from all jots',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            operation: {
+              type: 'string',
+              enum: ['list', 'rename', 'delete'],
+              description: 'list (default)/rename/delete; child tags (tag/...) follow rename and delete',
+            },
+            tag: {
+              type: 'string',
+              description: 'Tag to rename or delete',
+            },
+            newName: {
+              type: 'string',
+              description: 'New tag name (rename; an existing tag is merged)',
+            },
+            context: {
+              type: 'string',
+              description: 'Only count jots in this context (list)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Max results (list)',
+            },
+          },
+        },
+      },
+      {
+        name: 'metadata',
+        description: 'List metadata keys, or the values of one key, with jot counts',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            key: {
+              type: 'string',
+              description: 'List the values of this key',
+            },
+            context: {
+              type: 'string',
+              description: 'Only jots in this context (default: all)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Max results',
+            },
+          },
+        },
+      },
+      {
+        name: 'file_jots',
+        description: 'Jots about a file or directory: anchored to it or mentioning its path',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'File or directory, relative to the repository root',
+            },
+            context: {
+              type: 'string',
+              description: 'Only this context (default: all)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Max results',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'dedupe',
+        description: 'Find duplicate and near-duplicate jots within each context and merge them into the oldest',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            context: {
+              type: 'string',
+              description: 'Only this context (default: all)',
+            },
+            threshold: {
+              type: 'number',
+              description: 'Minimum similarity from 0 to 1 (default from config, 0.85; 1 = exact duplicates only)',
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Only list the duplicates',
+            },
+          },
+        },
+      },
+      {
+        name: 'transfer',
+        description: 'Export (JSON/NDJSON/Markdown) or import jots',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            operation: {
+              type: 'string',
+              enum: ['export', 'import'],
+              description: 'export/import',
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'ndjson', 'markdown'],
+              description: 'Export format (default from config, json)',
+            },
+            context: {
+              type: 'string',
+              description: 'Export only this context (markdown: defaults to current)',
+            },
+            groupBy: {
+              type: 'string',
+              enum: ['tag', 'day'],
+              description: 'Markdown grouping (default tag)',
+            },
+            path: {
+              type: 'string',
+              description: 'File to write (export) or read (import)',
+            },
+            data: {
+              type: 'string',
+              description: 'Inline import data',
+            },
+            strategy: {
+              type: 'string',
+              enum: ['skip', 'overwrite', 'merge'],
+              description: 'Import conflict strategy (default skip)',
+            },
+            cwd: CWD_PROPERTY,
           },
           required: ['operation'],
         },
@@ -169,6 +514,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'context':
         responseText = handlers.handleContext(args);
         break;
+      case 'tags':
+        responseText = handlers.handleTags(args);
+        break;
+      case 'metadata':
+        responseText = handlers.handleMetadata(args);
+        break;
+      case 'file_jots':
+        responseText = handlers.handleFileJots(args);
+        break;
+      case 'dedupe':
+        responseText = handlers.handleDedupe(args);
+        break;
+      case 'transfer':
+        responseText = handlers.handleTransfer(args);
+        break;
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -246,6 +606,26 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   };
 });
 
+/**
+ * Build the "expiring soon" section appended to prompts, empty when nothing expires
+ */
+function formatExpiringSection(contextName?: string): string {
+  const expiring = service.getExpiringSoon(config.expiringSoonDays, contextName);
+  if (expiring.length === 0) {
+    return '';
+  }
+
+  const jotList = expiring
+    .map((j) => {
+      const context = service.getContext(j.contextId);
+      const date = new Date(j.expiresAt!).toLocaleDateString();
+      return `[${j.id}] [${context?.name}] expires ${date}: ${j.message}`;
+    })
+    .join('\n');
+
+  return `\n\nThese jots expire within ${config.expiringSoonDays} days:\n\n${jotList}\n\nAsk me whether to keep any of them (renew them or make them permanent).`;
+}
+
 /**
  * Prompt handlers
  */
@@ -278,15 +658,16 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
     case 'resume_work': {
       const contextName = args?.context as string | undefined;
       const limit = typeof args?.limit === 'number' ? args.limit : 5;
-      const jots = contextName
-        ? service.getContextJots(contextName, limit)
-        : service.searchJots({ limit });
+      // Open and in-progress items come first
+      const jots = service.getResumeJots(limit, contextName);
 
       const jotList = jots
         .map((j) => {
           const context = service.getContext(j.contextId);
           const date = new Date(j.createdAt).toLocaleDateString();
-          return `[${context?.name}] ${date}: ${j.message}`;
+          const flags = [j.status, ...(j.pinned ? ['pinned'] : [])];
+          if (j.priority !== 'normal') flags.push(j.priority);
+          return `[${context?.name}] ${date} (${flags.join(', ')}): ${j.message}`;
         })
         .join('\n');
 
@@ -296,7 +677,7 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
             role: 'user',
             content: {
               type: 'text',
-              text: `Here are my recent jots to help resume work:\n\n${jotList}\n\nBased on these jots, help me understand where I left off and what I should work on next.`,
+              text: `Here are my recent jots to help resume work:\n\n${jotList}\n\nBased on these jots, help me understand where I left off and what I should work on next.${formatExpiringSection(contextName)}`,
             },
           },
         ],
@@ -378,7 +759,7 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
             role: 'user',
             content: {
               type: 'text',
-              text: `Here are my most recent jots:\n\n${jotList}\n\nWhat was I working on? What should I focus on next?`,
+              text: `Here are my most recent jots:\n\n${jotList}\n\nWhat was I working on? What should I focus on next?${formatExpiringSection()}`,
             },
           },
         ],
@@ -409,12 +790,24 @@ Lightweight MCP server for maintaining coding context across sessions
 
 Usage:
   jot-mcp              Start the MCP server
+  jot-mcp export       Export jots (--format json|ndjson|markdown, --context <name>,
+                       --group-by tag|day, --output <file>)
+  jot-mcp import FILE  Import jots from FILE or - for stdin (--strategy skip|overwrite|merge)
   jot-mcp --version    Show version number
   jot-mcp --help       Show this help message
+
+Configuration:
+  ~/.config/jot-mcp/config.json and .jot.json in the repository root
+  Environment: JOT_DB_PATH, JOT_DEFAULT_TTL_DAYS, JOT_DEFAULT_TAGS, JOT_OUTPUT_FORMAT,
+               JOT_CLEANUP_MODE
 `);
     process.exit(0);
   }
 
+  if ((CLI_COMMANDS as readonly string[]).includes(args[0])) {
+    process.exit(runCli(args, service));
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Jot MCP server running on stdio');
@@ -0,0 +1,150 @@
+/**
+ * Markdown rendering of a context as a handoff document
+ */
+
+import { Context, JotEntry, MarkdownGroupBy } from './types.js';
+import { formatAnchor } from './anchors.js';
+
+export const MARKDOWN_GROUPINGS: readonly MarkdownGroupBy[] = ['tag', 'day'];
+
+const TODO_TAG = 'todo';
+const UNTAGGED = 'Untagged';
+
+/**
+ * Format a timestamp as a local YYYY-MM-DD date
+ */
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Escape characters that would break a Markdown table cell
+ */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render a single jot as a list item.
+ * Jots tagged `todo` become checklist items (checked when done); metadata becomes a table.
+ */
+function formatJotItem(jot: JotEntry): string {
+  const [firstLine, ...rest] = jot.message.split(/\r?\n/);
+  let bullet = '- ';
+  if (jot.tags.includes(TODO_TAG)) {
+    bullet = jot.status === 'done' ? '- [x] ' : '- [ ] ';
+  }
+
+  const lines = [`${bullet}${firstLine}`];
+  for (const line of rest) {
+    lines.push(line ? `  ${line}` : '');
+  }
+
+  const details = [`#${jot.id}`, formatDay(jot.createdAt)];
+  if (jot.pinned) {
+    details.push('pinned');
+  }
+  if (jot.priority !== 'normal') {
+    details.push(`priority: ${jot.priority}`);
+  }
+  if (jot.status !== 'open') {
+    details.push(`status: ${jot.status}`);
+  }
+  if (jot.tags.length > 0) {
+    details.push(`tags: ${jot.tags.join(', ')}`);
+  }
+  if (jot.anchors.length > 0) {
+    details.push(`at: ${jot.anchors.map((anchor) => `\`${formatAnchor(anchor)}\``).join(', ')}`);
+  }
+  details.push(jot.expiresAt === null ? 'permanent' : `expires: ${formatDay(jot.expiresAt)}`);
+  lines.push(`  _${details.join(' · ')}_`);
+
+  const metadata = Object.entries(jot.metadata);
+  if (metadata.length > 0) {
+    lines.push('');
+    lines.push('  | Key | Value |');
+    lines.push('  | --- | --- |');
+    for (const [key, value] of metadata) {
+      lines.push(`  | ${escapeCell(key)} | ${escapeCell(value)} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Group jots by tag (a jot appears under each of its tags) or by creation day
+ */
+function groupJots(jots: JotEntry[], groupBy: MarkdownGroupBy): Map<string, JotEntry[]> {
+  const groups = new Map<string, JotEntry[]>();
+  const add = (key: string, jot: JotEntry) => {
+    const group = groups.get(key);
+    if (group) {
+      group.push(jot);
+    } else {
+      groups.set(key, [jot]);
+    }
+  };
+
+  for (const jot of jots) {
+    if (groupBy === 'day') {
+      add(formatDay(jot.createdAt), jot);
+    } else if (jot.tags.length === 0) {
+      add(UNTAGGED, jot);
+    } else {
+      for (const tag of jot.tags) {
+        add(tag, jot);
+      }
+    }
+  }
+
+  // Days in chronological order, tags alphabetically with untagged last
+  const keys = [...groups.keys()].sort((a, b) => {
+    if (a === UNTAGGED) return 1;
+    if (b === UNTAGGED) return -1;
+    return a.localeCompare(b);
+  });
+  return new Map(keys.map((key) => [key, groups.get(key)!]));
+}
+
+/**
+ * Render a context and its jots as a Markdown document with front matter
+ */
+export function formatContextMarkdown(
+  context: Context,
+  jots: JotEntry[],
+  groupBy: MarkdownGroupBy = 'tag'
+): string {
+  // Oldest first reads naturally in a handoff
+  const ordered = [...jots].sort((a, b) => a.createdAt - b.createdAt);
+
+  const frontMatter = ['---', `context: ${JSON.stringify(context.name)}`];
+  if (context.repository) {
+    frontMatter.push(`repository: ${JSON.stringify(context.repository)}`);
+  }
+  if (context.description) {
+    frontMatter.push(`description: ${JSON.stringify(context.description)}`);
+  }
+  if (ordered.length > 0) {
+    frontMatter.push(`from: ${formatDay(ordered[0].createdAt)}`);
+    frontMatter.push(`to: ${formatDay(ordered[ordered.length - 1].createdAt)}`);
+  }
+  frontMatter.push(`jots: ${ordered.length}`);
+  frontMatter.push(`exported: ${formatDay(Date.now())}`);
+  frontMatter.push('---');
+
+  const sections: string[] = [frontMatter.join('\n'), `# ${context.name}`];
+
+  if (ordered.length === 0) {
+    sections.push('_No jots._');
+  } else {
+    for (const [heading, group] of groupJots(ordered, groupBy)) {
+      sections.push(`## ${heading}\n\n${group.map(formatJotItem).join('\n\n')}`);
+    }
+  }
+
+  return sections.join('\n\n') + '\n';
+}
@@ -0,0 +1,395 @@
+/**
+ * Versioned schema migrations
+ * The applied version is tracked with PRAGMA user_version
+ */
+
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+/**
+ * Ordered list of schema migrations.
+ * Never edit a released migration - append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: (db) => {
+      // Contexts table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS contexts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          repository TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+
+      // Jots table
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          context_id INTEGER NOT NULL,
+          message TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          expires_at INTEGER,
+          FOREIGN KEY (context_id) REFERENCES contexts(id) ON DELETE CASCADE
+        )
+      `);
+
+      // Tags table (many-to-many with jots)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          jot_id INTEGER NOT NULL,
+          tag TEXT NOT NULL,
+          FOREIGN KEY (jot_id) REFERENCES jots(id) ON DELETE CASCADE,
+          UNIQUE(jot_id, tag)
+        )
+      `);
+
+      // Metadata table (key-value pairs for jots)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS metadata (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          jot_id INTEGER NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          FOREIGN KEY (jot_id) REFERENCES jots(id) ON DELETE CASCADE,
+          UNIQUE(jot_id, key)
+        )
+      `);
+
+      // Create indexes for common queries
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_contexts_updated_at ON contexts(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_jots_context_id ON jots(context_id);
+        CREATE INDEX IF NOT EXISTS idx_jots_created_at ON jots(created_at);
+        CREATE INDEX IF NOT EXISTS idx_jots_expires_at ON jots(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags(tag);
+      `);
+
+      // Create full-text search virtual table
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS jots_fts USING fts5(
+          jot_id UNINDEXED,
+          message,
+          content=jots,
+          content_rowid=rowid
+        )
+      `);
+
+      // Triggers to keep FTS table in sync
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS jots_ai AFTER INSERT ON jots BEGIN
+          INSERT INTO jots_fts(rowid, jot_id, message)
+          VALUES (new.rowid, new.id, new.message);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS jots_ad AFTER DELETE ON jots BEGIN
+          INSERT INTO jots_fts(jots_fts, rowid, jot_id, message)
+          VALUES('delete', old.rowid, old.id, old.message);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS jots_au AFTER UPDATE ON jots BEGIN
+          INSERT INTO jots_fts(jots_fts, rowid, jot_id, message)
+          VALUES('delete', old.rowid, old.id, old.message);
+          INSERT INTO jots_fts(rowid, jot_id, message)
+          VALUES (new.rowid, new.id, new.message);
+        END;
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Jot status workflow',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jots ADD COLUMN status TEXT NOT NULL DEFAULT 'open';
+        ALTER TABLE jots ADD COLUMN completed_at INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_jots_status ON jots(status);
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Jot priority and pinning',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jots ADD COLUMN priority TEXT NOT NULL DEFAULT 'normal';
+        ALTER TABLE jots ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Jot revision history',
+    up: (db) => {
+      // No foreign key: history must outlive the jot so deletions can be undone
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jot_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          jot_id INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          source TEXT NOT NULL,
+          snapshot TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_jot_revisions_jot_id ON jot_revisions(jot_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Soft delete (trash) for jots and contexts',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jots ADD COLUMN deleted_at INTEGER;
+        ALTER TABLE contexts ADD COLUMN deleted_at INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_jots_deleted_at ON jots(deleted_at);
+        CREATE INDEX IF NOT EXISTS idx_contexts_deleted_at ON contexts(deleted_at);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Archive for expired jots',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jots ADD COLUMN archived_at INTEGER;
+        CREATE INDEX IF NOT EXISTS idx_jots_archived_at ON jots(archived_at);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Context hierarchy (repository contexts with branch children)',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE contexts ADD COLUMN parent_id INTEGER REFERENCES contexts(id) ON DELETE SET NULL;
+        CREATE INDEX IF NOT EXISTS idx_contexts_parent_id ON contexts(parent_id);
+      `);
+      // Existing "repo/branch" contexts become children of the longest matching context
+      db.exec(`
+        UPDATE contexts SET parent_id = (
+          SELECT p.id FROM contexts p
+          WHERE p.id != contexts.id
+            AND substr(contexts.name, 1, length(p.name) + 1) = p.name || '/'
+          ORDER BY length(p.name) DESC
+          LIMIT 1
+        )
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Context description, status and jot defaults',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE contexts ADD COLUMN description TEXT;
+        ALTER TABLE contexts ADD COLUMN status TEXT NOT NULL DEFAULT 'active';
+        ALTER TABLE contexts ADD COLUMN default_ttl_days INTEGER;
+        ALTER TABLE contexts ADD COLUMN default_tags TEXT NOT NULL DEFAULT '[]';
+        CREATE INDEX IF NOT EXISTS idx_contexts_status ON contexts(status);
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Full-text index readable by snippet()',
+    up: (db) => {
+      // The jot_id column had no counterpart in the jots content table,
+      // so FTS5 could not read rows back for snippet() and highlight()
+      db.exec(`
+        DROP TRIGGER IF EXISTS jots_ai;
+        DROP TRIGGER IF EXISTS jots_ad;
+        DROP TRIGGER IF EXISTS jots_au;
+        DROP TABLE IF EXISTS jots_fts;
+
+        CREATE VIRTUAL TABLE jots_fts USING fts5(
+          message,
+          content=jots,
+          content_rowid=rowid
+        );
+        INSERT INTO jots_fts(jots_fts) VALUES ('rebuild');
+
+        CREATE TRIGGER jots_ai AFTER INSERT ON jots BEGIN
+          INSERT INTO jots_fts(rowid, message) VALUES (new.rowid, new.message);
+        END;
+
+        CREATE TRIGGER jots_ad AFTER DELETE ON jots BEGIN
+          INSERT INTO jots_fts(jots_fts, rowid, message) VALUES ('delete', old.rowid, old.message);
+        END;
+
+        CREATE TRIGGER jots_au AFTER UPDATE OF message ON jots BEGIN
+          INSERT INTO jots_fts(jots_fts, rowid, message) VALUES ('delete', old.rowid, old.message);
+          INSERT INTO jots_fts(rowid, message) VALUES (new.rowid, new.message);
+        END;
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Metadata lookups by key and value',
+    up: (db) => {
+      db.exec('CREATE INDEX IF NOT EXISTS idx_metadata_key_value ON metadata(key, value)');
+    },
+  },
+  {
+    version: 11,
+    description: 'Normalised tags',
+    up: (db) => {
+      // Lower case, trimmed, inner whitespace as '-'; rows are rebuilt because
+      // normalising can make two tags of the same jot equal
+      const rows = db.prepare('SELECT jot_id, tag FROM tags ORDER BY id').all() as { jot_id: number; tag: string }[];
+      const tags = new Map<number, Set<string>>();
+      for (const row of rows) {
+        const tag = row.tag.trim().toLowerCase().replace(/\s*\/\s*/g, '/').replace(/\s+/g, '-');
+        if (tag === '') continue;
+        tags.set(row.jot_id, (tags.get(row.jot_id) ?? new Set()).add(tag));
+      }
+
+      db.exec('DELETE FROM tags');
+      const insert = db.prepare('INSERT INTO tags (jot_id, tag) VALUES (?, ?)');
+      for (const [jotId, jotTags] of tags) {
+        for (const tag of jotTags) {
+          insert.run(jotId, tag);
+        }
+      }
+    },
+  },
+  {
+    version: 12,
+    description: 'Embedding vectors for semantic search',
+    up: (db) => {
+      // Written with each jot while semantic search is enabled; older jots are embedded by the next semantic search
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jot_vectors (
+          jot_id INTEGER PRIMARY KEY REFERENCES jots(id) ON DELETE CASCADE,
+          model TEXT NOT NULL,
+          vector BLOB NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Typed links between jots',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jot_links (
+          from_id INTEGER NOT NULL REFERENCES jots(id) ON DELETE CASCADE,
+          to_id INTEGER NOT NULL REFERENCES jots(id) ON DELETE CASCADE,
+          relation TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (from_id, to_id, relation)
+        );
+        CREATE INDEX IF NOT EXISTS idx_jot_links_to ON jot_links(to_id);
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: 'Child jots',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jots ADD COLUMN parent_id INTEGER REFERENCES jots(id) ON DELETE SET NULL;
+        CREATE INDEX IF NOT EXISTS idx_jots_parent ON jots(parent_id);
+      `);
+    },
+  },
+  {
+    version: 15,
+    description: 'Code location anchors',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jot_anchors (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          jot_id INTEGER NOT NULL REFERENCES jots(id) ON DELETE CASCADE,
+          path TEXT NOT NULL,
+          start_line INTEGER,
+          end_line INTEGER,
+          symbol TEXT,
+          commit_sha TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_jot_anchors_jot ON jot_anchors(jot_id);
+        CREATE INDEX IF NOT EXISTS idx_jot_anchors_path ON jot_anchors(path);
+      `);
+    },
+  },
+];
+
+/**
+ * Schema version this build of jot-mcp writes
+ */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read the schema version stored in the database file
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Apply all pending migrations in order.
+ * Each migration runs in its own transaction together with the version bump,
+ * so a failing migration leaves the database at the previous version.
+ * Returns the number of migrations applied.
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): number {
+  validateMigrations(migrations);
+
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  const current = getSchemaVersion(db);
+
+  if (current > latest) {
+    throw new Error(
+      `Database schema version ${current} is newer than supported version ${latest}. Please upgrade jot-mcp.`
+    );
+  }
+
+  let applied = 0;
+  for (const migration of migrations) {
+    const apply = db.transaction(() => {
+      // Re-check inside the write lock in case another process migrated first
+      if (getSchemaVersion(db) >= migration.version) {
+        return false;
+      }
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+      return true;
+    });
+
+    if (apply.immediate()) {
+      applied++;
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Ensure migrations have positive, strictly increasing versions
+ */
+function validateMigrations(migrations: Migration[]): void {
+  let previous = 0;
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= previous) {
+      throw new Error(
+        `Invalid migration order: version ${migration.version} (${migration.description}) must be greater than ${previous}`
+      );
+    }
+    previous = migration.version;
+  }
+}
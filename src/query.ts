@@ -0,0 +1,203 @@
+/**
+ * Search query syntax
+ * Turns the `query` argument of list_jots into a quoted FTS5 expression plus
+ * SQL filters, so punctuation in user input never reaches MATCH as syntax.
+ *
+ *   auth "login flow" deploy*        terms, phrases and prefixes (all must match)
+ *   redis OR memcached               either term
+ *   -legacy, NOT legacy              exclude a term
+ *   tag:bug -tag:fixed context:api   with one tag but not another, in the context
+ *   after:2025-12-01 before:2026-01-01 meta:ticket=ABC-1 meta:path=src/* meta:pr
+ */
+
+import { MetadataFilter } from './types.js';
+
+export interface ParsedQuery {
+  match: string | null; // FTS5 expression jots must match
+  text: string; // The words of `match` without operators, for semantic search
+  exclude: string | null; // FTS5 expression jots must not match
+  tags: string[]; // Every tag must be present
+  excludeTags: string[]; // None of these tags may be present
+  contexts: string[]; // Any of these context names
+  before?: number; // Created before this time
+  after?: number; // Created at or after this time
+  metadata: MetadataFilter[];
+}
+
+/**
+ * A word or quoted phrase from the raw query
+ */
+interface QueryToken {
+  text: string;
+  phrase: boolean; // Written in quotes, so never an operator or qualifier
+  prefix: boolean; // Phrase followed by `*`
+}
+
+const QUALIFIER = /^(tag|context|before|after|meta):(.+)$/;
+
+/**
+ * Parse the query syntax into FTS5 expressions and filters
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    match: null,
+    text: '',
+    exclude: null,
+    tags: [],
+    excludeTags: [],
+    contexts: [],
+    metadata: [],
+  };
+  const positive: string[] = [];
+  const negative: string[] = [];
+  const words: string[] = [];
+  let negateNext = false;
+  let pendingOr = false;
+
+  for (const token of tokenize(input)) {
+    let text = token.text;
+    let prefix = token.prefix;
+    let negate = negateNext;
+    negateNext = false;
+
+    if (!token.phrase) {
+      if (text === 'OR') {
+        pendingOr = positive.length > 0;
+        continue;
+      }
+      if (text === 'NOT') {
+        negateNext = true;
+        continue;
+      }
+      if (text.length > 1 && text.startsWith('-')) {
+        negate = true;
+        text = text.slice(1);
+      }
+
+      const qualifier = QUALIFIER.exec(text);
+      if (qualifier) {
+        if (negate && qualifier[1] === 'tag') {
+          parsed.excludeTags.push(qualifier[2]);
+        } else if (negate) {
+          throw new Error(`Only tag qualifiers can be negated: ${token.text}`);
+        } else {
+          applyQualifier(parsed, qualifier[1], qualifier[2]);
+        }
+        continue;
+      }
+
+      if (text.length > 1 && text.endsWith('*')) {
+        prefix = true;
+        text = text.replace(/\*+$/, '');
+      }
+    }
+
+    // Terms without letters or digits would be an empty phrase to FTS5
+    if (!/[\p{L}\p{N}]/u.test(text)) {
+      continue;
+    }
+    const term = `"${text.replace(/"/g, '""')}"${prefix ? '*' : ''}`;
+    if (negate) {
+      negative.push(term);
+    } else {
+      if (pendingOr) {
+        positive.push('OR');
+      }
+      positive.push(term);
+      words.push(text);
+    }
+    pendingOr = false;
+  }
+
+  parsed.match = positive.length > 0 ? positive.join(' ') : null;
+  parsed.text = words.join(' ');
+  parsed.exclude = negative.length > 0 ? negative.join(' OR ') : null;
+  return parsed;
+}
+
+/**
+ * Split on whitespace outside quotes; quotes inside a word (`tag:"needs review"`) only group
+ */
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const phrase = input[i] === '"';
+    let text = '';
+    let inQuote = false;
+    while (i < input.length && (inQuote || !/\s/.test(input[i]))) {
+      if (input[i] === '"') {
+        inQuote = !inQuote;
+        // A phrase ends at its closing quote
+        if (phrase && !inQuote && text !== '') {
+          i++;
+          break;
+        }
+      } else {
+        text += input[i];
+      }
+      i++;
+    }
+
+    // Words keep their `*` until qualifiers have been picked out
+    const prefix = phrase && input[i] === '*';
+    if (prefix) {
+      i++;
+    }
+
+    if (text !== '') {
+      tokens.push({ text, phrase, prefix });
+    }
+  }
+
+  return tokens;
+}
+
+function applyQualifier(parsed: ParsedQuery, name: string, value: string): void {
+  switch (name) {
+    case 'tag':
+      parsed.tags.push(value);
+      break;
+    case 'context':
+      parsed.contexts.push(value);
+      break;
+    case 'before':
+    case 'after': {
+      const time = new Date(value).getTime();
+      if (Number.isNaN(time)) {
+        throw new Error(`Invalid date in ${name}:${value}`);
+      }
+      parsed[name] = time;
+      break;
+    }
+    case 'meta': {
+      const separator = value.indexOf('=');
+      parsed.metadata.push(
+        separator === -1
+          ? { key: value }
+          : parseMetadataFilter(value.slice(0, separator), value.slice(separator + 1))
+      );
+      break;
+    }
+  }
+}
+
+/**
+ * Build a metadata filter from a key and a value pattern: `*` (or empty) for any value,
+ * a trailing `*` for a prefix, otherwise an exact value
+ */
+export function parseMetadataFilter(key: string, pattern: string): MetadataFilter {
+  if (pattern === '' || pattern === '*') {
+    return { key };
+  }
+  if (pattern.endsWith('*')) {
+    return { key, value: pattern.slice(0, -1), prefix: true };
+  }
+  return { key, value: pattern };
+}
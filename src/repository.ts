@@ -4,28 +4,181 @@
  */
 
 import Database from 'better-sqlite3';
-import { Context, JotEntry, SearchOptions } from './types.js';
+import {
+  CodeAnchor,
+  Context,
+  JotEntry,
+  JotLink,
+  JotOrder,
+  JotPriority,
+  JotRevision,
+  JotStatus,
+  LinkRelation,
+  RevisionAction,
+  SearchMode,
+  SearchOptions,
+  UpdateContextOptions,
+  UpdateJotOptions,
+  UsageCount,
+} from './types.js';
+import { ParsedQuery, parseQuery } from './query.js';
+import { EmbeddingProvider, cosineSimilarity, decodeVector, encodeVector } from './embeddings.js';
+import { mentionsPath, normalizeAnchors, normalizePath } from './anchors.js';
+
+/**
+ * Optional fields when inserting a jot row
+ */
+export interface JotRecordOptions {
+  id?: number; // Only used to restore a deleted jot under its original ID
+  createdAt?: number;
+  updatedAt?: number;
+  status?: JotStatus;
+  completedAt?: number | null;
+  priority?: JotPriority;
+  pinned?: boolean;
+  parentId?: number | null;
+  anchors?: CodeAnchor[];
+}
+
+/**
+ * Fields that can be changed on a jot row (expiration is absolute here)
+ */
+export type JotRecordUpdates = Omit<UpdateJotOptions, 'ttlDays'> & {
+  contextId?: number; // Moves the jot to another context
+  expiresAt?: number | null;
+  completedAt?: number | null; // Overrides the completion time derived from status
+};
+
+/**
+ * Source recorded in revisions when the caller does not name one
+ */
+const DEFAULT_SOURCE = 'api';
+
+/**
+ * Maximum number of tokens in a search snippet
+ */
+const SNIPPET_TOKENS = 16;
+
+/**
+ * Weight of the keyword (BM25) score in hybrid search; the rest is embedding similarity
+ */
+const HYBRID_KEYWORD_WEIGHT = 0.5;
+
+/**
+ * Minimum embedding similarity for a jot to count as a semantic match
+ */
+const MIN_SIMILARITY = 0.1;
+
+/**
+ * Columns selected for a jot row (table aliased as j)
+ */
+const JOT_COLUMNS =
+  'j.id, j.context_id, j.parent_id, j.message, j.created_at, j.updated_at, j.expires_at, j.status, j.completed_at, j.priority, j.pinned, j.deleted_at, j.archived_at';
+
+/**
+ * Default listing order: pinned first, then by priority, then newest
+ */
+const JOT_ORDER = `j.pinned DESC,
+  CASE j.priority WHEN 'critical' THEN 3 WHEN 'high' THEN 2 WHEN 'normal' THEN 1 ELSE 0 END DESC,
+  j.created_at DESC`;
+
+/**
+ * Explicit search orders; relevance uses the bm25 score selected by full-text searches
+ */
+const SEARCH_ORDERS: Record<JotOrder, string> = {
+  relevance: 'score ASC, j.created_at DESC',
+  created: 'j.created_at DESC',
+  updated: 'j.updated_at DESC, j.created_at DESC',
+  expires: 'j.expires_at IS NULL, j.expires_at ASC, j.created_at DESC',
+};
+
+/**
+ * Canonical tags: lower case, trimmed, inner whitespace as `-`, without duplicates or empty tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) =>
+    tag
+      .trim()
+      .toLowerCase()
+      .replace(/\s*\/\s*/g, '/')
+      .replace(/\s+/g, '-')
+  );
+  return [...new Set(normalized.filter(Boolean))];
+}
+
+/**
+ * Condition on a `tags t` row matching any of the tags or their child tags (`area` matches `area/db`)
+ */
+function tagMatch(tags: string[]): { sql: string; params: string[] } {
+  return {
+    sql: tags.map(() => "(t.tag = ? OR substr(t.tag, 1, length(?) + 1) = ? || '/')").join(' OR '),
+    params: tags.flatMap((tag) => [tag, tag, tag]),
+  };
+}
+
+/**
+ * Condition on a `jot_anchors a` row pointing at a file, or at anything under a directory
+ */
+function anchorMatch(path: string): { sql: string; params: string[] } {
+  const normalized = normalizePath(path);
+  return {
+    sql: "(a.path = ? OR substr(a.path, 1, length(?) + 1) = ? || '/')",
+    params: [normalized, normalized, normalized],
+  };
+}
+
+/**
+ * Context row with a count of its jots that are neither trashed nor archived
+ */
+const CONTEXT_SELECT = `SELECT c.*, COUNT(j.id) as jot_count
+  FROM contexts c
+  LEFT JOIN jots j ON j.context_id = c.id AND j.deleted_at IS NULL AND j.archived_at IS NULL`;
+
+/**
+ * Statuses that close a jot and stamp its completion time
+ */
+const CLOSED_STATUSES: readonly JotStatus[] = ['done', 'dropped'];
 
 export class JotRepository {
-  constructor(private db: Database.Database) {}
+  constructor(
+    private db: Database.Database,
+    private embeddings: EmbeddingProvider | null = null // Keeps jot_vectors in sync when set
+  ) {}
 
   /**
-   * Create or get a context by name
+   * Create or get a context by name.
+   * A trashed context with the same name is brought back (without its trashed jots),
+   * and an existing context without a repository URL or parent gets the given one.
    */
-  upsertContext(name: string, repository?: string): Context {
-    const existing = this.getContextByName(name);
+  upsertContext(name: string, repository?: string, parentId?: number): Context {
+    const existing = this.getContextByName(name, true);
     if (existing) {
-      return existing;
+      const revive = existing.deletedAt !== null;
+      const backfill =
+        (!!repository && existing.repository === null) ||
+        (parentId !== undefined && existing.parentId === null);
+      if (!revive && !backfill) {
+        return existing;
+      }
+      this.db
+        .prepare(
+          `UPDATE contexts
+           SET deleted_at = NULL, repository = COALESCE(repository, ?), parent_id = COALESCE(parent_id, ?),
+               updated_at = ?
+           WHERE id = ?`
+        )
+        .run(repository || null, parentId ?? null, Date.now(), existing.id);
+      return this.getContext(existing.id)!;
     }
 
     const now = Date.now();
 
     const result = this.db
       .prepare(
-        `INSERT INTO contexts (name, repository, created_at, updated_at)
-         VALUES (?, ?, ?, ?)`
+        `INSERT INTO contexts (name, repository, parent_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)`
       )
-      .run(name, repository || null, now, now);
+      .run(name, repository || null, parentId ?? null, now, now);
 
     return this.getContext(result.lastInsertRowid as number)!;
   }
@@ -33,13 +186,11 @@ export class JotRepository {
   /**
    * Get context by ID
    */
-  getContext(id: number): Context | null {
+  getContext(id: number, includeDeleted = false): Context | null {
     const row = this.db
       .prepare(
-        `SELECT c.*, COUNT(j.id) as jot_count
-         FROM contexts c
-         LEFT JOIN jots j ON j.context_id = c.id
-         WHERE c.id = ?
+        `${CONTEXT_SELECT}
+         WHERE c.id = ? ${includeDeleted ? '' : 'AND c.deleted_at IS NULL'}
          GROUP BY c.id`
       )
       .get(id) as any;
@@ -50,13 +201,11 @@ export class JotRepository {
   /**
    * Get context by name
    */
-  getContextByName(name: string): Context | null {
+  getContextByName(name: string, includeDeleted = false): Context | null {
     const row = this.db
       .prepare(
-        `SELECT c.*, COUNT(j.id) as jot_count
-         FROM contexts c
-         LEFT JOIN jots j ON j.context_id = c.id
-         WHERE c.name = ?
+        `${CONTEXT_SELECT}
+         WHERE c.name = ? ${includeDeleted ? '' : 'AND c.deleted_at IS NULL'}
          GROUP BY c.id`
       )
       .get(name) as any;
@@ -65,14 +214,126 @@ export class JotRepository {
   }
 
   /**
-   * List all contexts
+   * Find the context a "repo/branch" style name belongs under: the longest existing name that prefixes it
+   */
+  findParentContext(name: string): Context | null {
+    const row = this.db
+      .prepare(
+        `${CONTEXT_SELECT}
+         WHERE c.deleted_at IS NULL
+           AND c.name != ?
+           AND substr(?, 1, length(c.name) + 1) = c.name || '/'
+         GROUP BY c.id
+         ORDER BY length(c.name) DESC
+         LIMIT 1`
+      )
+      .get(name, name) as any;
+
+    return row ? this.mapContext(row) : null;
+  }
+
+  /**
+   * Rename a context. Child contexts named after it ("old/branch") are renamed along with it.
    */
-  listContexts(): Context[] {
+  renameContext(id: number, newName: string): Context {
+    return this.transaction(() => {
+      const context = this.getContext(id, true);
+      if (!context) {
+        throw new Error(`Context with ID ${id} not found`);
+      }
+
+      const descendants = this.db
+        .prepare(
+          `WITH RECURSIVE tree(id) AS (
+             SELECT id FROM contexts WHERE parent_id = ?
+             UNION SELECT c.id FROM contexts c JOIN tree t ON c.parent_id = t.id
+           )
+           SELECT c.id, c.name FROM contexts c JOIN tree t ON t.id = c.id`
+        )
+        .all(id) as { id: number; name: string }[];
+      const renames = [
+        { id, name: newName },
+        ...descendants
+          .filter((d) => d.name.startsWith(`${context.name}/`))
+          .map((d) => ({ id: d.id, name: newName + d.name.slice(context.name.length) })),
+      ];
+
+      const now = Date.now();
+      const rename = this.db.prepare('UPDATE contexts SET name = ?, updated_at = ? WHERE id = ?');
+      for (const { id: contextId, name } of renames) {
+        const existing = this.getContextByName(name, true);
+        if (existing && existing.id !== contextId) {
+          throw new Error(`Context '${name}' already exists${existing.deletedAt !== null ? ' (in trash)' : ''}`);
+        }
+        rename.run(name, now, contextId);
+      }
+
+      return this.getContext(id, true)!;
+    });
+  }
+
+  /**
+   * Move all jots (trashed ones included) and child contexts of a context into another
+   * and remove the emptied context. Returns the number of live jots moved.
+   */
+  mergeContextInto(sourceId: number, targetId: number): number {
+    return this.transaction(() => {
+      const now = Date.now();
+      const { moved } = this.db
+        .prepare('SELECT COUNT(*) AS moved FROM jots WHERE context_id = ? AND deleted_at IS NULL')
+        .get(sourceId) as { moved: number };
+      this.db.prepare('UPDATE jots SET context_id = ? WHERE context_id = ?').run(targetId, sourceId);
+      this.db
+        .prepare('UPDATE contexts SET parent_id = ? WHERE parent_id = ? AND id != ?')
+        .run(targetId, sourceId, targetId);
+      this.db.prepare('UPDATE contexts SET updated_at = ? WHERE id = ?').run(now, targetId);
+      this.db.prepare('DELETE FROM contexts WHERE id = ?').run(sourceId);
+      return moved;
+    });
+  }
+
+  /**
+   * Update a context's description, status or jot defaults
+   */
+  updateContext(id: number, updates: UpdateContextOptions): Context | null {
+    const assignments: string[] = [];
+    const params: any[] = [];
+    if (updates.description !== undefined) {
+      assignments.push('description = ?');
+      params.push(updates.description);
+    }
+    if (updates.status !== undefined) {
+      assignments.push('status = ?');
+      params.push(updates.status);
+    }
+    if (updates.defaultTtlDays !== undefined) {
+      assignments.push('default_ttl_days = ?');
+      params.push(updates.defaultTtlDays);
+    }
+    if (updates.defaultTags !== undefined) {
+      assignments.push('default_tags = ?');
+      params.push(JSON.stringify(updates.defaultTags));
+    }
+
+    if (assignments.length > 0) {
+      assignments.push('updated_at = ?');
+      params.push(Date.now(), id);
+      this.db
+        .prepare(`UPDATE contexts SET ${assignments.join(', ')} WHERE id = ? AND deleted_at IS NULL`)
+        .run(...params);
+    }
+
+    return this.getContext(id);
+  }
+
+  /**
+   * List all contexts (archived ones only when asked)
+   */
+  listContexts(includeArchived = false): Context[] {
     const rows = this.db
       .prepare(
-        `SELECT c.*, COUNT(j.id) as jot_count
-         FROM contexts c
-         LEFT JOIN jots j ON j.context_id = c.id
+        `${CONTEXT_SELECT}
+         WHERE c.deleted_at IS NULL ${includeArchived ? '' : "AND c.status = 'active'"}
          GROUP BY c.id
          ORDER BY c.updated_at DESC`
       )
@@ -82,11 +343,38 @@ export class JotRepository {
   }
 
   /**
-   * Delete a context and all its jots
+   * Move a context and all its jots to the trash
    */
   deleteContext(id: number): boolean {
-    const result = this.db.prepare('DELETE FROM contexts WHERE id = ?').run(id);
-    return result.changes > 0;
+    return this.transaction(() => {
+      const now = Date.now();
+      const result = this.db
+        .prepare('UPDATE contexts SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL')
+        .run(now, id);
+      if (result.changes === 0) return false;
+
+      // Stamp jots with the context's deletion time so a restore brings back exactly these
+      this.db
+        .prepare('UPDATE jots SET deleted_at = ? WHERE context_id = ? AND deleted_at IS NULL')
+        .run(now, id);
+      return true;
+    });
+  }
+
+  /**
+   * Restore a trashed context together with the jots trashed along with it
+   */
+  restoreContext(id: number): boolean {
+    return this.transaction(() => {
+      const context = this.getContext(id, true);
+      if (!context || context.deletedAt === null) return false;
+
+      this.db
+        .prepare('UPDATE jots SET deleted_at = NULL WHERE context_id = ? AND deleted_at = ?')
+        .run(id, context.deletedAt);
+      this.db.prepare('UPDATE contexts SET deleted_at = NULL WHERE id = ?').run(id);
+      return true;
+    });
   }
 
   /**
@@ -97,23 +385,45 @@ export class JotRepository {
     message: string,
     expiresAt: number | null,
     tags: string[],
-    metadata: Record<string, string>
+    metadata: Record<string, string>,
+    options: JotRecordOptions = {}
   ): JotEntry {
     const now = Date.now();
+    const createdAt = options.createdAt ?? now;
+    const updatedAt = options.updatedAt ?? createdAt;
+    const status = options.status ?? 'open';
+    const completedAt =
+      options.completedAt !== undefined
+        ? options.completedAt
+        : CLOSED_STATUSES.includes(status)
+          ? now
+          : null;
 
     // Insert jot
     const result = this.db
       .prepare(
-        `INSERT INTO jots (context_id, message, created_at, updated_at, expires_at)
-         VALUES (?, ?, ?, ?, ?)`
+        `INSERT INTO jots (id, context_id, parent_id, message, created_at, updated_at, expires_at, status, completed_at, priority, pinned)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       )
-      .run(contextId, message, now, now, expiresAt);
+      .run(
+        options.id ?? null,
+        contextId,
+        options.parentId ?? null,
+        message,
+        createdAt,
+        updatedAt,
+        expiresAt,
+        status,
+        completedAt,
+        options.priority ?? 'normal',
+        options.pinned ? 1 : 0
+      );
 
     const id = result.lastInsertRowid as number;
 
     // Insert tags
     const insertTag = this.db.prepare('INSERT INTO tags (jot_id, tag) VALUES (?, ?)');
-    for (const tag of tags) {
+    for (const tag of normalizeTags(tags)) {
       insertTag.run(id, tag);
     }
 
@@ -123,6 +433,9 @@ export class JotRepository {
       insertMeta.run(id, key, value);
     }
 
+    this.insertAnchors(id, options.anchors ?? []);
+    this.storeVector(id, message);
+
     // Update context's updated time
     this.db
       .prepare('UPDATE contexts SET updated_at = ? WHERE id = ?')
@@ -132,30 +445,80 @@ export class JotRepository {
   }
 
   /**
-   * Update a jot entry
+   * Update a jot entry, recording its previous version in the revision history
    */
   updateJot(
     id: number,
-    updates: {
-      message?: string;
-      expiresAt?: number | null;
-      tags?: string[];
-      metadata?: Record<string, string>;
-    }
+    updates: JotRecordUpdates,
+    source: string = DEFAULT_SOURCE,
+    action: RevisionAction = 'update'
+  ): JotEntry | null {
+    return this.transaction(() => this.applyJotUpdate(id, updates, source, action));
+  }
+
+  private applyJotUpdate(
+    id: number,
+    updates: JotRecordUpdates,
+    source: string,
+    action: RevisionAction
   ): JotEntry | null {
     const existing = this.getJot(id);
     if (!existing) return null;
 
     const now = Date.now();
 
-    // Update message and/or expiration
-    if (updates.message !== undefined || updates.expiresAt !== undefined) {
-      const message = updates.message !== undefined ? updates.message : existing.message;
-      const expiresAt = updates.expiresAt !== undefined ? updates.expiresAt : existing.expiresAt;
+    if (Object.values(updates).some((value) => value !== undefined)) {
+      this.recordRevision(existing, action, source);
+    }
 
+    // Update scalar columns
+    const assignments: string[] = [];
+    const params: any[] = [];
+    if (updates.contextId !== undefined && updates.contextId !== existing.contextId) {
+      assignments.push('context_id = ?');
+      params.push(updates.contextId);
+    }
+    if (updates.parentId !== undefined && updates.parentId !== existing.parentId) {
+      assignments.push('parent_id = ?');
+      params.push(updates.parentId);
+    }
+    if (updates.message !== undefined) {
+      assignments.push('message = ?');
+      params.push(updates.message);
+    }
+    if (updates.expiresAt !== undefined) {
+      // A new expiration brings an archived jot back
+      assignments.push('expires_at = ?', 'archived_at = NULL');
+      params.push(updates.expiresAt);
+    }
+    if (updates.status !== undefined && updates.status !== existing.status) {
+      assignments.push('status = ?');
+      params.push(updates.status);
+      if (updates.completedAt === undefined) {
+        // Closing stamps the completion time, reopening clears it
+        assignments.push('completed_at = ?');
+        params.push(CLOSED_STATUSES.includes(updates.status) ? now : null);
+      }
+    }
+    if (updates.completedAt !== undefined) {
+      assignments.push('completed_at = ?');
+      params.push(updates.completedAt);
+    }
+    if (updates.priority !== undefined) {
+      assignments.push('priority = ?');
+      params.push(updates.priority);
+    }
+    if (updates.pinned !== undefined) {
+      assignments.push('pinned = ?');
+      params.push(updates.pinned ? 1 : 0);
+    }
+    if (assignments.length > 0) {
       this.db
-        .prepare('UPDATE jots SET message = ?, expires_at = ?, updated_at = ? WHERE id = ?')
-        .run(message, expiresAt, now, id);
+        .prepare(`UPDATE jots SET ${assignments.join(', ')}, updated_at = ? WHERE id = ?`)
+        .run(...params, now, id);
+    }
+    if (updates.message !== undefined && updates.message !== existing.message) {
+      this.storeVector(id, updates.message);
     }
 
     // Update tags if provided
@@ -165,7 +528,7 @@ export class JotRepository {
 
       // Insert new tags
       const insertTag = this.db.prepare('INSERT INTO tags (jot_id, tag) VALUES (?, ?)');
-      for (const tag of updates.tags) {
+      for (const tag of normalizeTags(updates.tags)) {
         insertTag.run(id, tag);
       }
     }
@@ -182,6 +545,12 @@ export class JotRepository {
       }
     }
 
+    // Replace anchors if provided
+    if (updates.anchors !== undefined) {
+      this.db.prepare('DELETE FROM jot_anchors WHERE jot_id = ?').run(id);
+      this.insertAnchors(id, updates.anchors);
+    }
+
     // Update context's updated time
     this.db
       .prepare('UPDATE contexts SET updated_at = ? WHERE id = ?')
@@ -193,12 +562,12 @@ export class JotRepository {
   /**
    * Get a jot by ID
    */
-  getJot(id: number): JotEntry | null {
+  getJot(id: number, includeDeleted = false): JotEntry | null {
     const row = this.db
       .prepare(
-        `SELECT id, context_id, message, created_at, updated_at, expires_at
-         FROM jots
-         WHERE id = ?`
+        `SELECT ${JOT_COLUMNS}
+         FROM jots j
+         WHERE j.id = ? ${includeDeleted ? '' : 'AND j.deleted_at IS NULL'}`
       )
       .get(id) as any;
 
@@ -211,30 +580,139 @@ export class JotRepository {
    * Search jots with various filters
    */
   searchJots(options: SearchOptions = {}): JotEntry[] {
-    let query = `SELECT DISTINCT j.id, j.context_id, j.message, j.created_at, j.updated_at, j.expires_at FROM jots j`;
+    const parsed = options.query ? parseQuery(options.query) : null;
+    if (options.mode && options.mode !== 'keyword' && parsed?.text) {
+      return this.searchByMeaning(options, parsed, options.mode);
+    }
+
+    let query = `SELECT DISTINCT ${JOT_COLUMNS} FROM jots j`;
     const conditions: string[] = [];
     const params: any[] = [];
 
-    // Context filter
-    if (options.contextId) {
-      conditions.push('j.context_id = ?');
-      params.push(options.contextId);
-    }
-
     // Full-text search
-    if (options.query) {
-      query = `SELECT DISTINCT j.id, j.context_id, j.message, j.created_at, j.updated_at, j.expires_at
+    if (parsed?.match) {
+      query = `SELECT DISTINCT ${JOT_COLUMNS},
+                 bm25(jots_fts) AS score,
+                 snippet(jots_fts, 0, '**', '**', '…', ${SNIPPET_TOKENS}) AS snippet
                FROM jots j
                JOIN jots_fts fts ON j.rowid = fts.rowid`;
       conditions.push('jots_fts MATCH ?');
-      params.push(options.query);
+      params.push(parsed.match);
     }
 
-    // Tags filter
-    if (options.tags && options.tags.length > 0) {
-      query += ` JOIN tags t ON j.id = t.jot_id`;
-      conditions.push(`t.tag IN (${options.tags.map(() => '?').join(', ')})`);
-      params.push(...options.tags);
+    const filters = this.searchFilters(options, parsed);
+    conditions.push(...filters.conditions);
+    params.push(...filters.params);
+    query += ' WHERE ' + conditions.join(' AND ');
+
+    // Order and limit (relevance needs a query to rank by)
+    const orderBy = options.orderBy ?? (parsed?.match ? 'relevance' : undefined);
+    query += ` ORDER BY ${orderBy && (orderBy !== 'relevance' || parsed?.match) ? SEARCH_ORDERS[orderBy] : JOT_ORDER}`;
+    if (options.limit) {
+      query += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as any[];
+    return rows.map((row) => {
+      const jot = this.mapJot(row);
+      if (row.snippet) {
+        jot.snippet = row.snippet;
+      }
+      return jot;
+    });
+  }
+
+  /**
+   * WHERE conditions for every search filter except the full-text match
+   */
+  private searchFilters(options: SearchOptions, parsed: ParsedQuery | null): { conditions: string[]; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    // Context filter (optionally with the whole subtree of child contexts)
+    if (options.contextId && options.includeDescendants) {
+      conditions.push(`j.context_id IN (
+        WITH RECURSIVE tree(id) AS (
+          SELECT ?
+          UNION SELECT c.id FROM contexts c JOIN tree t ON c.parent_id = t.id
+        )
+        SELECT id FROM tree
+      )`);
+      params.push(options.contextId);
+    } else if (options.contextId) {
+      conditions.push('j.context_id = ?');
+      params.push(options.contextId);
+    }
+
+    // Query syntax: excluded terms and qualifiers
+    if (parsed?.exclude) {
+      conditions.push('j.rowid NOT IN (SELECT rowid FROM jots_fts WHERE jots_fts MATCH ?)');
+      params.push(parsed.exclude);
+    }
+    if (parsed && parsed.contexts.length > 0) {
+      conditions.push(
+        `j.context_id IN (SELECT id FROM contexts WHERE name IN (${parsed.contexts.map(() => '?').join(', ')}))`
+      );
+      params.push(...parsed.contexts);
+    }
+    if (parsed?.after !== undefined) {
+      conditions.push('j.created_at >= ?');
+      params.push(parsed.after);
+    }
+    if (parsed?.before !== undefined) {
+      conditions.push('j.created_at < ?');
+      params.push(parsed.before);
+    }
+
+    // Tags filter: any (default) or all of the tags, none of the excluded ones.
+    // Tag qualifiers in the query always need all of their tags.
+    const tags = normalizeTags(options.tags ?? []);
+    const tagGroups: string[][] = [];
+    if (tags.length > 0) {
+      tagGroups.push(...(options.tagMode === 'all' ? tags.map((tag) => [tag]) : [tags]));
+    }
+    tagGroups.push(...normalizeTags(parsed?.tags ?? []).map((tag) => [tag]));
+    for (const group of tagGroups) {
+      const match = tagMatch(group);
+      conditions.push(`EXISTS (SELECT 1 FROM tags t WHERE t.jot_id = j.id AND (${match.sql}))`);
+      params.push(...match.params);
+    }
+    const excludeTags = normalizeTags([...(options.excludeTags ?? []), ...(parsed?.excludeTags ?? [])]);
+    if (excludeTags.length > 0) {
+      const match = tagMatch(excludeTags);
+      conditions.push(`NOT EXISTS (SELECT 1 FROM tags t WHERE t.jot_id = j.id AND (${match.sql}))`);
+      params.push(...match.params);
+    }
+
+    // Metadata filters: key present, exact value or value prefix
+    for (const filter of [...(options.metadata ?? []), ...(parsed?.metadata ?? [])]) {
+      let match = 'm.key = ?';
+      params.push(filter.key);
+      if (filter.value !== undefined && filter.prefix) {
+        match += ' AND substr(m.value, 1, length(?)) = ?';
+        params.push(filter.value, filter.value);
+      } else if (filter.value !== undefined) {
+        match += ' AND m.value = ?';
+        params.push(filter.value);
+      }
+      conditions.push(`EXISTS (SELECT 1 FROM metadata m WHERE m.jot_id = j.id AND ${match})`);
+    }
+
+    // Status filter
+    if (options.status && options.status.length > 0) {
+      conditions.push(`j.status IN (${options.status.map(() => '?').join(', ')})`);
+      params.push(...options.status);
+    }
+
+    // Priority and pin filters
+    if (options.priority && options.priority.length > 0) {
+      conditions.push(`j.priority IN (${options.priority.map(() => '?').join(', ')})`);
+      params.push(...options.priority);
+    }
+    if (options.pinned !== undefined) {
+      conditions.push('j.pinned = ?');
+      params.push(options.pinned ? 1 : 0);
     }
 
     // Date range
@@ -247,77 +725,550 @@ export class JotRepository {
       params.push(options.toDate);
     }
 
-    // Expiration filter
-    if (!options.includeExpired) {
+    // Trash filter
+    if (options.trash) {
+      conditions.push('j.deleted_at IS NOT NULL');
+    } else {
+      conditions.push('j.deleted_at IS NULL');
+    }
+
+    if (options.topLevel) {
+      conditions.push('j.parent_id IS NULL');
+    }
+
+    // Anchored to a file or under a directory
+    if (options.path) {
+      const match = anchorMatch(options.path);
+      conditions.push(`EXISTS (SELECT 1 FROM jot_anchors a WHERE a.jot_id = j.id AND ${match.sql})`);
+      params.push(...match.params);
+    }
+
+    // Archive filter
+    if (options.archived) {
+      conditions.push('j.archived_at IS NOT NULL');
+    }
+
+    // Expiration filter (the trash and the archive show expired jots too)
+    if (!options.includeExpired && !options.trash && !options.archived) {
       conditions.push('(j.expires_at IS NULL OR j.expires_at > ?)');
       params.push(Date.now());
     }
 
-    // Build WHERE clause
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
+    return { conditions, params };
+  }
+
+  /**
+   * Semantic search ranks the filtered jots by embedding similarity to the query words;
+   * hybrid search blends that with the normalised BM25 score of jots that also match the keywords.
+   * Jots neither similar enough nor matching the keywords are left out.
+   */
+  private searchByMeaning(options: SearchOptions, parsed: ParsedQuery, mode: SearchMode): JotEntry[] {
+    if (!this.embeddings) {
+      throw new Error('Semantic search is disabled (set semanticSearch in the config)');
     }
+    this.indexVectors();
 
-    // Order and limit
-    query += ' ORDER BY j.created_at DESC';
-    if (options.limit) {
-      query += ' LIMIT ?';
-      params.push(options.limit);
+    const filters = this.searchFilters(options, parsed);
+    const rows = this.db
+      .prepare(
+        `SELECT ${JOT_COLUMNS}, v.vector
+         FROM jots j
+         JOIN jot_vectors v ON v.jot_id = j.id
+         WHERE ${filters.conditions.join(' AND ')}`
+      )
+      .all(...filters.params) as any[];
+
+    // Keyword scores, scaled so the best match is 1
+    const keyword = new Map<number, { score: number; snippet: string }>();
+    if (mode === 'hybrid' && parsed.match) {
+      const matches = this.db
+        .prepare(
+          `SELECT rowid AS id, bm25(jots_fts) AS score,
+                  snippet(jots_fts, 0, '**', '**', '…', ${SNIPPET_TOKENS}) AS snippet
+           FROM jots_fts WHERE jots_fts MATCH ?`
+        )
+        .all(parsed.match) as { id: number; score: number; snippet: string }[];
+      const best = Math.min(0, ...matches.map((match) => match.score));
+      for (const match of matches) {
+        keyword.set(match.id, { score: best < 0 ? match.score / best : 0, snippet: match.snippet });
+      }
     }
 
-    const rows = this.db.prepare(query).all(...params) as any[];
+    const queryVector = this.embeddings.embed(parsed.text);
+    const scored = rows
+      .map((row) => {
+        const similarity = cosineSimilarity(queryVector, decodeVector(row.vector));
+        const match = keyword.get(row.id);
+        const score = match
+          ? HYBRID_KEYWORD_WEIGHT * match.score + (1 - HYBRID_KEYWORD_WEIGHT) * similarity
+          : similarity * (mode === 'hybrid' ? 1 - HYBRID_KEYWORD_WEIGHT : 1);
+        return { row, similarity, match, score };
+      })
+      .filter((result) => result.match || result.similarity >= MIN_SIMILARITY);
+
+    const orderBy = options.orderBy ?? 'relevance';
+    const value = (row: any): number =>
+      orderBy === 'created' ? row.created_at : orderBy === 'updated' ? row.updated_at : (row.expires_at ?? Infinity);
+    scored.sort((a, b) =>
+      orderBy === 'relevance'
+        ? b.score - a.score || b.row.created_at - a.row.created_at
+        : orderBy === 'expires'
+          ? value(a.row) - value(b.row) || b.row.created_at - a.row.created_at
+          : value(b.row) - value(a.row) || b.row.created_at - a.row.created_at
+    );
+
+    return scored.slice(0, options.limit || undefined).map(({ row, match }) => {
+      const jot = this.mapJot(row);
+      if (match) {
+        jot.snippet = match.snippet;
+      }
+      return jot;
+    });
+  }
+
+  /**
+   * Embed jots that have no vector from the current provider yet (written before semantic search
+   * was enabled, or by another provider). Returns the number of jots embedded.
+   */
+  indexVectors(): number {
+    if (!this.embeddings) {
+      return 0;
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT j.id, j.message FROM jots j
+         LEFT JOIN jot_vectors v ON v.jot_id = j.id
+         WHERE v.jot_id IS NULL OR v.model != ?`
+      )
+      .all(this.embeddings.id) as { id: number; message: string }[];
+
+    this.transaction(() => {
+      for (const row of rows) {
+        this.storeVector(row.id, row.message);
+      }
+    });
+    return rows.length;
+  }
+
+  /**
+   * Store a jot's code anchors (validated and normalised)
+   */
+  private insertAnchors(jotId: number, anchors: CodeAnchor[]): void {
+    const insert = this.db.prepare(
+      'INSERT INTO jot_anchors (jot_id, path, start_line, end_line, symbol, commit_sha) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    for (const anchor of normalizeAnchors(anchors)) {
+      insert.run(
+        jotId,
+        anchor.path,
+        anchor.startLine ?? null,
+        anchor.endLine ?? null,
+        anchor.symbol ?? null,
+        anchor.commit ?? null
+      );
+    }
+  }
+
+  /**
+   * Store the embedding of a jot's message (nothing without an embedding provider)
+   */
+  private storeVector(jotId: number, message: string): void {
+    if (!this.embeddings) {
+      return;
+    }
+    this.db
+      .prepare('INSERT OR REPLACE INTO jot_vectors (jot_id, model, vector) VALUES (?, ?, ?)')
+      .run(jotId, this.embeddings.id, encodeVector(this.embeddings.embed(message)));
+  }
+
+  /**
+   * Current jots anchored to a file (or anything under a directory), or whose message mentions the path
+   */
+  getJotsForPath(path: string, contextId?: number, limit?: number): JotEntry[] {
+    const match = anchorMatch(path);
+    const anchored = `EXISTS (SELECT 1 FROM jot_anchors a WHERE a.jot_id = j.id AND ${match.sql})`;
+    const conditions = [
+      `(${anchored} OR instr(j.message, ?) > 0)`,
+      'j.deleted_at IS NULL',
+      '(j.expires_at IS NULL OR j.expires_at > ?)',
+    ];
+    const params: any[] = [...match.params, ...match.params, normalizePath(path), Date.now()];
+    if (contextId !== undefined) {
+      conditions.push('j.context_id = ?');
+      params.push(contextId);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT ${JOT_COLUMNS}, ${anchored} AS anchored FROM jots j
+         WHERE ${conditions.join(' AND ')} ORDER BY ${JOT_ORDER}`
+      )
+      .all(...params) as any[];
+    // instr() finds the path anywhere; a mention needs it to stand on its own
+    const matching = rows.filter((row) => row.anchored || mentionsPath(row.message, path));
+    return (limit ? matching.slice(0, limit) : matching).map((row) => this.mapJot(row));
+  }
+
+  /**
+   * ID and message of the current jots in a context under one parent (top-level jots for null),
+   * the candidates when looking for duplicates of a new jot
+   */
+  getSiblingMessages(contextId: number, parentId: number | null): { id: number; message: string }[] {
+    return this.db
+      .prepare(
+        `SELECT id, message FROM jots
+         WHERE context_id = ? AND parent_id IS ? AND deleted_at IS NULL
+           AND (expires_at IS NULL OR expires_at > ?)`
+      )
+      .all(contextId, parentId, Date.now()) as { id: number; message: string }[];
+  }
+
+  /**
+   * Child jots of a jot outside the trash, in the order they were created
+   */
+  getChildren(parentId: number): JotEntry[] {
+    const rows = this.db
+      .prepare(
+        `SELECT ${JOT_COLUMNS} FROM jots j
+         WHERE j.parent_id = ? AND j.deleted_at IS NULL
+         ORDER BY j.created_at ASC, j.id ASC`
+      )
+      .all(parentId) as any[];
     return rows.map((row) => this.mapJot(row));
   }
 
   /**
-   * Delete a jot
+   * Link one jot to another. Returns false when the link already exists.
    */
-  deleteJot(id: number): boolean {
-    const result = this.db.prepare('DELETE FROM jots WHERE id = ?').run(id);
+  linkJots(fromId: number, toId: number, relation: LinkRelation): boolean {
+    const result = this.db
+      .prepare('INSERT OR IGNORE INTO jot_links (from_id, to_id, relation, created_at) VALUES (?, ?, ?, ?)')
+      .run(fromId, toId, relation, Date.now());
     return result.changes > 0;
   }
 
+  /**
+   * Remove the links between two jots, in either direction and of any or one relation.
+   * Returns the number of links removed.
+   */
+  unlinkJots(jotId: number, otherId: number, relation?: LinkRelation): number {
+    const result = this.db
+      .prepare(
+        `DELETE FROM jot_links
+         WHERE ((from_id = ? AND to_id = ?) OR (from_id = ? AND to_id = ?))
+           AND (? IS NULL OR relation = ?)`
+      )
+      .run(jotId, otherId, otherId, jotId, relation ?? null, relation ?? null);
+    return result.changes;
+  }
+
+  /**
+   * Move a jot to the trash, keeping its last version in the revision history
+   */
+  deleteJot(id: number, source: string = DEFAULT_SOURCE): boolean {
+    return this.transaction(() => {
+      const existing = this.getJot(id);
+      if (!existing) return false;
+
+      this.recordRevision(existing, 'delete', source);
+      const result = this.db
+        .prepare('UPDATE jots SET deleted_at = ? WHERE id = ?')
+        .run(Date.now(), id);
+      return result.changes > 0;
+    });
+  }
+
+  /**
+   * Restore a jot from the trash, restoring its context too if that was trashed
+   */
+  restoreJot(id: number): JotEntry | null {
+    return this.transaction(() => {
+      const jot = this.getJot(id, true);
+      if (!jot || jot.deletedAt === null) return null;
+
+      this.db.prepare('UPDATE jots SET deleted_at = NULL WHERE id = ?').run(id);
+      this.db
+        .prepare('UPDATE contexts SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL')
+        .run(jot.contextId);
+      return this.getJot(id);
+    });
+  }
+
+  /**
+   * Permanently remove jots and contexts that have been in the trash since before a cutoff
+   */
+  purgeTrash(deletedBefore: number): number {
+    return this.transaction(() => {
+      const jots = this.db
+        .prepare('DELETE FROM jots WHERE deleted_at IS NOT NULL AND deleted_at <= ?')
+        .run(deletedBefore);
+      const contexts = this.db
+        .prepare('DELETE FROM contexts WHERE deleted_at IS NOT NULL AND deleted_at <= ?')
+        .run(deletedBefore);
+      return jots.changes + contexts.changes;
+    });
+  }
+
+  /**
+   * Get revisions of a jot, newest first
+   */
+  getRevisions(jotId: number): JotRevision[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM jot_revisions
+         WHERE jot_id = ?
+         ORDER BY id DESC`
+      )
+      .all(jotId) as any[];
+
+    return rows.map((row) => this.mapRevision(row));
+  }
+
+  /**
+   * Get a single revision by ID
+   */
+  getRevision(id: number): JotRevision | null {
+    const row = this.db.prepare('SELECT * FROM jot_revisions WHERE id = ?').get(id) as any;
+    return row ? this.mapRevision(row) : null;
+  }
+
+  /**
+   * Get the most recent deletion of a jot that is still in the trash, or was purged from a context
+   * that still exists (a purged jot cannot be recreated without its context)
+   */
+  getLastDeletion(): JotRevision | null {
+    const row = this.db
+      .prepare(
+        `SELECT r.* FROM jot_revisions r
+         LEFT JOIN jots j ON j.id = r.jot_id
+         LEFT JOIN contexts c ON c.id = json_extract(r.snapshot, '$.contextId') AND c.deleted_at IS NULL
+         WHERE r.action = 'delete'
+           AND (j.deleted_at IS NOT NULL OR (j.id IS NULL AND c.id IS NOT NULL))
+         ORDER BY r.id DESC
+         LIMIT 1`
+      )
+      .get() as any;
+
+    return row ? this.mapRevision(row) : null;
+  }
+
   /**
    * Delete expired jots
    */
   deleteExpiredJots(): number {
     const now = Date.now();
     const result = this.db
-      .prepare('DELETE FROM jots WHERE expires_at IS NOT NULL AND expires_at <= ?')
+      .prepare(
+        'DELETE FROM jots WHERE expires_at IS NOT NULL AND expires_at <= ? AND deleted_at IS NULL'
+      )
       .run(now);
     return result.changes;
   }
 
+  /**
+   * Move expired jots to the archive, keeping them searchable
+   */
+  archiveExpiredJots(): number {
+    const now = Date.now();
+    const result = this.db
+      .prepare(
+        `UPDATE jots SET archived_at = ?
+         WHERE expires_at IS NOT NULL AND expires_at <= ?
+           AND archived_at IS NULL AND deleted_at IS NULL`
+      )
+      .run(now, now);
+    return result.changes;
+  }
+
   /**
    * Get jots that will expire soon (within days)
    */
-  getExpiringSoon(days: number): JotEntry[] {
+  getExpiringSoon(days: number, contextId?: number): JotEntry[] {
     const now = Date.now();
     const threshold = now + days * 24 * 60 * 60 * 1000;
 
     const rows = this.db
       .prepare(
-        `SELECT id, context_id, message, created_at, updated_at, expires_at
-         FROM jots
-         WHERE expires_at IS NOT NULL
-           AND expires_at > ?
-           AND expires_at <= ?
-         ORDER BY expires_at ASC`
+        `SELECT ${JOT_COLUMNS}
+         FROM jots j
+         WHERE j.expires_at IS NOT NULL
+           AND j.expires_at > ?
+           AND j.expires_at <= ?
+           AND j.deleted_at IS NULL
+           ${contextId !== undefined ? 'AND j.context_id = ?' : ''}
+         ORDER BY j.expires_at ASC`
       )
-      .all(now, threshold) as any[];
+      .all(now, threshold, ...(contextId !== undefined ? [contextId] : [])) as any[];
 
     return rows.map((row) => this.mapJot(row));
   }
 
+  /**
+   * Count jots that are neither trashed nor archived per metadata key, or per value of one key
+   */
+  countMetadata(key?: string, contextId?: number, limit?: number): UsageCount[] {
+    const conditions = ['j.deleted_at IS NULL', 'j.archived_at IS NULL'];
+    const params: any[] = [];
+    if (key !== undefined) {
+      conditions.push('m.key = ?');
+      params.push(key);
+    }
+    if (contextId !== undefined) {
+      conditions.push('j.context_id = ?');
+      params.push(contextId);
+    }
+    if (limit) {
+      params.push(limit);
+    }
+
+    const column = key !== undefined ? 'm.value' : 'm.key';
+    return this.db
+      .prepare(
+        `SELECT ${column} AS name, COUNT(DISTINCT j.id) AS jotCount
+         FROM metadata m
+         JOIN jots j ON j.id = m.jot_id
+         WHERE ${conditions.join(' AND ')}
+         GROUP BY ${column}
+         ORDER BY jotCount DESC, name ASC
+         ${limit ? 'LIMIT ?' : ''}`
+      )
+      .all(...params) as UsageCount[];
+  }
+
+  /**
+   * Count jots that are neither trashed nor archived per tag
+   */
+  countTags(contextId?: number, limit?: number): UsageCount[] {
+    const params: any[] = [];
+    if (contextId !== undefined) {
+      params.push(contextId);
+    }
+    if (limit) {
+      params.push(limit);
+    }
+
+    return this.db
+      .prepare(
+        `SELECT t.tag AS name, COUNT(DISTINCT j.id) AS jotCount
+         FROM tags t
+         JOIN jots j ON j.id = t.jot_id
+         WHERE j.deleted_at IS NULL AND j.archived_at IS NULL
+           ${contextId !== undefined ? 'AND j.context_id = ?' : ''}
+         GROUP BY t.tag
+         ORDER BY jotCount DESC, name ASC
+         ${limit ? 'LIMIT ?' : ''}`
+      )
+      .all(...params) as UsageCount[];
+  }
+
+  /**
+   * Rename a tag and its child tags (`area/db` follows `area`) on every jot, trashed and archived ones included.
+   * Renaming onto an existing tag merges the two. Every changed jot gets a revision.
+   * Returns the number of jots changed.
+   */
+  renameTag(tag: string, newTag: string, source = 'tags:rename'): number {
+    return this.transaction(() => {
+      const rows = this.db
+        .prepare(
+          `SELECT DISTINCT tag FROM tags
+           WHERE tag = ? OR substr(tag, 1, length(?) + 1) = ? || '/'`
+        )
+        .all(tag, tag, tag) as { tag: string }[];
+      const renames = rows
+        .map((row) => ({ from: row.tag, to: newTag + row.tag.slice(tag.length) }))
+        .filter((rename) => rename.to !== rename.from);
+
+      const jotIds = new Set<number>();
+      const findJots = this.db.prepare('SELECT jot_id FROM tags WHERE tag = ?');
+      for (const rename of renames) {
+        for (const jot of findJots.all(rename.from) as { jot_id: number }[]) {
+          jotIds.add(jot.jot_id);
+        }
+      }
+      this.recordBulkChange([...jotIds], source);
+
+      const copy = this.db.prepare('INSERT OR IGNORE INTO tags (jot_id, tag) SELECT jot_id, ? FROM tags WHERE tag = ?');
+      const remove = this.db.prepare('DELETE FROM tags WHERE tag = ?');
+      for (const rename of renames) {
+        copy.run(rename.to, rename.from);
+        remove.run(rename.from);
+      }
+      return jotIds.size;
+    });
+  }
+
+  /**
+   * Remove a tag and its child tags from every jot. Every changed jot gets a revision.
+   * Returns the number of jots changed.
+   */
+  deleteTag(tag: string, source = 'tags:delete'): number {
+    return this.transaction(() => {
+      const where = "tag = ? OR substr(tag, 1, length(?) + 1) = ? || '/'";
+      const jotIds = (
+        this.db.prepare(`SELECT DISTINCT jot_id FROM tags WHERE ${where}`).all(tag, tag, tag) as { jot_id: number }[]
+      ).map((row) => row.jot_id);
+      this.recordBulkChange(jotIds, source);
+      this.db.prepare(`DELETE FROM tags WHERE ${where}`).run(tag, tag, tag);
+      return jotIds.length;
+    });
+  }
+
+  /**
+   * Run a function inside a single database transaction
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
   // Helper methods
 
+  private recordRevision(jot: JotEntry, action: RevisionAction, source: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO jot_revisions (jot_id, action, source, snapshot, created_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(jot.id, action, source, JSON.stringify(jot), Date.now());
+  }
+
+  /**
+   * Record the current version of jots about to be changed in bulk and mark them as updated
+   */
+  private recordBulkChange(jotIds: number[], source: string): void {
+    const now = Date.now();
+    const touch = this.db.prepare('UPDATE jots SET updated_at = ? WHERE id = ?');
+    for (const id of jotIds) {
+      const jot = this.getJot(id, true);
+      if (!jot) continue;
+      this.recordRevision(jot, 'update', source);
+      touch.run(now, id);
+    }
+  }
+
+  private mapRevision(row: any): JotRevision {
+    return {
+      id: row.id,
+      jotId: row.jot_id,
+      action: row.action,
+      source: row.source,
+      snapshot: JSON.parse(row.snapshot),
+      createdAt: row.created_at,
+    };
+  }
+
   private mapContext(row: any): Context {
     return {
       id: row.id,
       name: row.name,
       repository: row.repository,
+      description: row.description ?? null,
+      status: row.status ?? 'active',
+      defaultTtlDays: row.default_ttl_days ?? null,
+      defaultTags: row.default_tags ? JSON.parse(row.default_tags) : [],
       createdAt: row.created_at,
       updatedAt: row.updated_at,
+      deletedAt: row.deleted_at ?? null,
+      parentId: row.parent_id ?? null,
       jotCount: row.jot_count || 0,
     };
   }
@@ -338,15 +1289,64 @@ export class JotRepository {
       metadata[meta.key] = meta.value;
     }
 
-    return {
+    // Get links whose other jot is not in the trash
+    const links = this.db
+      .prepare(
+        `SELECT l.to_id AS jot_id, l.relation, 'outgoing' AS direction
+         FROM jot_links l JOIN jots o ON o.id = l.to_id AND o.deleted_at IS NULL
+         WHERE l.from_id = ?
+         UNION ALL
+         SELECT l.from_id, l.relation, 'incoming'
+         FROM jot_links l JOIN jots o ON o.id = l.from_id AND o.deleted_at IS NULL
+         WHERE l.to_id = ?
+         ORDER BY 1`
+      )
+      .all(row.id, row.id)
+      .map((l: any): JotLink => ({ jotId: l.jot_id, relation: l.relation, direction: l.direction }));
+
+    // Get anchors in the order they were given
+    const anchors = this.db
+      .prepare('SELECT path, start_line, end_line, symbol, commit_sha FROM jot_anchors WHERE jot_id = ? ORDER BY id')
+      .all(row.id)
+      .map((a: any): CodeAnchor => {
+        const anchor: CodeAnchor = { path: a.path };
+        if (a.start_line !== null) anchor.startLine = a.start_line;
+        if (a.end_line !== null) anchor.endLine = a.end_line;
+        if (a.symbol !== null) anchor.symbol = a.symbol;
+        if (a.commit_sha !== null) anchor.commit = a.commit_sha;
+        return anchor;
+      });
+
+    // Roll up the completion of child jots outside the trash
+    const children = this.db
+      .prepare(
+        `SELECT COUNT(*) AS total, COUNT(CASE WHEN status IN ('done', 'dropped') THEN 1 END) AS closed
+         FROM jots WHERE parent_id = ? AND deleted_at IS NULL`
+      )
+      .get(row.id) as { total: number; closed: number };
+
+    const jot: JotEntry = {
       id: row.id,
       contextId: row.context_id,
+      parentId: row.parent_id ?? null,
       message: row.message,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       expiresAt: row.expires_at,
+      status: row.status,
+      completedAt: row.completed_at,
+      priority: row.priority,
+      pinned: row.pinned === 1,
+      deletedAt: row.deleted_at,
+      archivedAt: row.archived_at ?? null,
       tags,
       metadata,
+      links,
+      anchors,
     };
+    if (children.total > 0) {
+      jot.progress = { closed: children.closed, total: children.total };
+    }
+    return jot;
   }
 }
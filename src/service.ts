@@ -3,76 +3,204 @@
  * Orchestrates between repository and MCP handlers
  */
 
-import { JotRepository } from './repository.js';
-import { Context, CreateJotOptions, JotEntry, SearchOptions } from './types.js';
-import { DEFAULT_TTL_DAYS } from './config.js';
-import { execSync } from 'child_process';
+import { JotRecordUpdates, JotRepository, normalizeTags } from './repository.js';
+import {
+  ChildAction,
+  CodeAnchor,
+  Context,
+  CreateJotOptions,
+  DuplicateCluster,
+  ExportDocument,
+  ExportedJot,
+  ImportResult,
+  ImportStrategy,
+  MergeResult,
+  JotConfig,
+  JotEntry,
+  JotLink,
+  JotRevision,
+  JotStatus,
+  LinkRelation,
+  LinkedJots,
+  MarkdownGroupBy,
+  RevisionAction,
+  SearchOptions,
+  UpdateContextOptions,
+  UpdateJotOptions,
+  UsageCount,
+} from './types.js';
+import { DEFAULT_CONFIG } from './config.js';
+import { EXPORT_FORMAT, EXPORT_VERSION, contentHash } from './transfer.js';
+import { formatContextMarkdown } from './markdown.js';
+import { findDuplicate, findDuplicateClusters } from './duplicates.js';
+import { normalizeAnchors } from './anchors.js';
+import {
+  ContextStrategy,
+  DEFAULT_STRATEGIES,
+  DetectedContext,
+  detectContext,
+  parseRemoteUrl,
+} from './context-detection.js';
+
+/**
+ * Revision source for changes made by an import
+ */
+const IMPORT_SOURCE = 'transfer:import';
+
+/**
+ * Revision source for jots changed or trashed by merging duplicates
+ */
+const DEDUPE_SOURCE = 'dedupe';
+
+/**
+ * Revision source for parents completed or reopened because of their child jots
+ */
+const ROLLUP_SOURCE = 'jot:rollup';
 
 export class JotService {
-  constructor(private repository: JotRepository) {}
+  constructor(
+    private repository: JotRepository,
+    private config: JotConfig = DEFAULT_CONFIG,
+    private strategies: readonly ContextStrategy[] = DEFAULT_STRATEGIES,
+    // Resolves the settings for a client directory (its repo `.jot.json`); without it `config` applies everywhere
+    private loadConfig: ((dir: string) => JotConfig) | null = null
+  ) {}
+
+  // Client workspace (e.g. the first MCP root); the server's cwd is used when unset
+  private workspaceRoot: string | null = null;
+
+  /**
+   * Detect contexts from a client workspace instead of the server's working directory
+   */
+  setWorkspaceRoot(dir: string | null): void {
+    this.workspaceRoot = dir;
+  }
+
+  /**
+   * Get the resolved settings for a client directory (default: the workspace root),
+   * or those this service runs with when there is neither
+   */
+  getConfig(cwd?: string): JotConfig {
+    const dir = cwd ?? this.workspaceRoot;
+    return dir && this.loadConfig ? this.loadConfig(dir) : this.config;
+  }
 
   /**
    * Detect the current context name without creating it
    */
-  detectCurrentContext(): string {
-    return this.detectContextName();
+  detectCurrentContext(cwd?: string): string {
+    return this.detectContextName(cwd);
   }
 
   /**
-   * Create a new jot with intelligent context detection
+   * Create a new jot with intelligent context detection.
+   * A jot with the same or a similar message in the context is reported in `duplicate`,
+   * or returned instead of creating a new jot when the duplicate action is `reuse`.
    */
   createJot(options: CreateJotOptions): JotEntry {
-    // Determine context
+    // Determine context (child jots always go to their parent's)
     let context: Context;
-    if (options.contextId) {
+    const parent = options.parentId !== undefined ? this.repository.getJot(options.parentId) : null;
+    if (options.parentId !== undefined && !parent) {
+      throw new Error(`Parent jot ${options.parentId} not found`);
+    }
+    if (parent) {
+      context = this.repository.getContext(parent.contextId)!;
+    } else if (options.contextId) {
       const existing = this.repository.getContext(options.contextId);
       if (!existing) {
         throw new Error(`Context with ID ${options.contextId} not found`);
       }
       context = existing;
     } else if (options.contextName) {
-      context = this.repository.upsertContext(options.contextName);
+      context = this.ensureContext(options.contextName);
     } else {
-      // Auto-detect context from git
-      const detectedName = this.detectContextName();
-      context = this.repository.upsertContext(detectedName);
+      // Auto-detect context (context file, git, directory)
+      const detected = this.detectContext(options.cwd);
+      context = this.ensureContext(detected.name, detected.repository, detected.parentName);
     }
 
-    // Calculate expiration
-    const expiresAt = this.calculateExpiration(options.ttlDays);
+    // Settings of the client's repository
+    const config = this.getConfig(options.cwd);
 
-    // Create jot
-    return this.repository.createJot(
-      context.id,
+    // Calculate expiration (the context's default TTL wins over the configured one)
+    const expiresAt = this.calculateExpiration(options.ttlDays ?? context.defaultTtlDays, config.defaultTtlDays);
+
+    // Configured and context default tags come first, without duplicates
+    const tags = [...new Set([...config.defaultTags, ...context.defaultTags, ...(options.tags || [])])];
+
+    // Look for duplicates among the context's current jots with the same parent
+    const match = findDuplicate(
       options.message,
-      expiresAt,
-      options.tags || [],
-      options.metadata || {}
+      this.repository.getSiblingMessages(context.id, parent?.id ?? null),
+      config.duplicates.threshold
     );
+    const duplicate = match ? { jotId: match.jot.id, similarity: match.similarity } : undefined;
+    if (match && (options.onDuplicate ?? config.duplicates.onDuplicate) === 'reuse') {
+      return { ...this.repository.getJot(match.jot.id)!, duplicate };
+    }
+
+    // Create jot
+    const jot = this.repository.transaction(() => {
+      const created = this.repository.createJot(
+        context.id,
+        options.message,
+        expiresAt,
+        tags,
+        options.metadata || {},
+        {
+          status: options.status,
+          priority: options.priority,
+          pinned: options.pinned,
+          parentId: parent?.id,
+          anchors: options.anchors,
+        }
+      );
+      this.rollUp(created.parentId);
+      return created;
+    });
+    return duplicate ? { ...jot, duplicate } : jot;
   }
 
   /**
-   * List all contexts
+   * List all contexts (archived ones only when asked)
    */
-  listContexts(): Context[] {
-    return this.repository.listContexts();
+  listContexts(includeArchived = false): Context[] {
+    return this.repository.listContexts(includeArchived);
+  }
+
+  /**
+   * Update a context's description, status or jot defaults
+   */
+  updateContext(idOrName: number | string, updates: UpdateContextOptions): Context {
+    const context = this.getContext(idOrName);
+    if (!context) {
+      throw new Error(`Context '${idOrName}' not found`);
+    }
+    if (updates.defaultTtlDays !== undefined && updates.defaultTtlDays !== null && updates.defaultTtlDays < 0) {
+      throw new Error('defaultTtlDays must not be negative');
+    }
+    return this.repository.updateContext(context.id, {
+      ...updates,
+      defaultTags: updates.defaultTags && normalizeTags(updates.defaultTags),
+    })!;
   }
 
   /**
    * Get a specific context
    */
-  getContext(idOrName: number | string): Context | null {
+  getContext(idOrName: number | string, includeDeleted = false): Context | null {
     // If it's a number, get by ID
     if (typeof idOrName === 'number') {
-      return this.repository.getContext(idOrName);
+      return this.repository.getContext(idOrName, includeDeleted);
     }
 
     // Otherwise get by name
-    return this.repository.getContextByName(idOrName);
+    return this.repository.getContextByName(idOrName, includeDeleted);
   }
 
   /**
-   * Delete a context and all its jots
+   * Move a context and all its jots to the trash
    */
   deleteContext(idOrName: number | string): boolean {
     const context = this.getContext(idOrName);
@@ -80,6 +208,129 @@ export class JotService {
     return this.repository.deleteContext(context.id);
   }
 
+  /**
+   * Merge a branch context into its parent once the branch has landed:
+   * its jots and child contexts move to the parent and the branch context is removed
+   */
+  mergeIntoParent(idOrName: number | string): MergeResult {
+    const context = this.getContext(idOrName);
+    if (!context) {
+      throw new Error(`Context '${idOrName}' not found`);
+    }
+    const parent = context.parentId !== null ? this.getContext(context.parentId) : null;
+    if (!parent) {
+      throw new Error(`Context '${context.name}' has no parent to merge into`);
+    }
+
+    return this.mergeContexts(context.id, parent.id);
+  }
+
+  /**
+   * Move all jots of a context into another and remove the source context.
+   * A jot whose message already exists in the target is folded into that jot
+   * (tags deduplicated, existing metadata wins, children handed over) and moved to the trash.
+   */
+  mergeContexts(
+    sourceIdOrName: number | string,
+    targetIdOrName: number | string,
+    source = 'context:merge'
+  ): MergeResult {
+    const from = this.getContext(sourceIdOrName);
+    if (!from) {
+      throw new Error(`Context '${sourceIdOrName}' not found`);
+    }
+    const into = this.getContext(targetIdOrName);
+    if (!into) {
+      throw new Error(`Context '${targetIdOrName}' not found`);
+    }
+    if (from.id === into.id) {
+      throw new Error(`Cannot merge context '${from.name}' into itself`);
+    }
+
+    return this.repository.transaction(() => {
+      const existingByHash = new Map<string, JotEntry>();
+      for (const jot of this.repository.searchJots({ contextId: into.id, includeExpired: true })) {
+        existingByHash.set(contentHash(jot.message), jot);
+      }
+
+      let duplicates = 0;
+      for (const jot of this.repository.searchJots({ contextId: from.id, includeExpired: true })) {
+        const existing = existingByHash.get(contentHash(jot.message));
+        if (!existing) continue;
+
+        this.repository.updateJot(
+          existing.id,
+          {
+            tags: [...new Set([...existing.tags, ...jot.tags])],
+            metadata: { ...jot.metadata, ...existing.metadata },
+          },
+          source
+        );
+        this.adoptChildren(jot.id, existing.id, source);
+        this.repository.deleteJot(jot.id, source);
+        this.rollUp(jot.parentId);
+        duplicates++;
+      }
+
+      // Folded duplicates are already in the trash, so they are not counted as moved
+      const moved = this.repository.mergeContextInto(from.id, into.id);
+      return { target: this.getContext(into.id)!, moved, duplicates };
+    });
+  }
+
+  /**
+   * Rename a context (and the branch contexts named after it), keeping its jots
+   */
+  renameContext(idOrName: number | string, newName: string): Context {
+    const context = this.getContext(idOrName);
+    if (!context) {
+      throw new Error(`Context '${idOrName}' not found`);
+    }
+    return this.repository.renameContext(context.id, newName.trim());
+  }
+
+  /**
+   * Move a jot to another context, creating the context if needed
+   */
+  moveJot(id: number, contextIdOrName: number | string, source?: string): JotEntry | null {
+    let context: Context | null;
+    if (typeof contextIdOrName === 'number') {
+      context = this.getContext(contextIdOrName);
+      if (!context) {
+        throw new Error(`Context with ID ${contextIdOrName} not found`);
+      }
+    } else {
+      context = this.ensureContext(contextIdOrName);
+    }
+
+    // Children move along; a child moved on its own leaves its parent
+    const contextId = context.id;
+    return this.repository.transaction(() => {
+      const jot = this.repository.getJot(id);
+      if (!jot) return null;
+
+      const parent = jot.parentId !== null ? this.repository.getJot(jot.parentId) : null;
+      const leaves = parent !== null && parent.contextId !== contextId;
+      const moved = this.repository.updateJot(id, { contextId, parentId: leaves ? null : undefined }, source);
+      for (const descendant of this.getDescendants(id)) {
+        this.repository.updateJot(descendant.id, { contextId }, source);
+      }
+      if (leaves) {
+        this.rollUp(jot.parentId);
+      }
+      return moved;
+    });
+  }
+
+  /**
+   * Restore a context (and the jots deleted with it) from the trash
+   */
+  restoreContext(idOrName: number | string): boolean {
+    const context = this.getContext(idOrName, true);
+    if (!context) return false;
+    return this.repository.restoreContext(context.id);
+  }
+
   /**
    * Search jots
    */
@@ -90,7 +341,12 @@ export class JotService {
   /**
    * Get jots for a specific context
    */
-  getContextJots(contextIdOrName: string, limit?: number): JotEntry[] {
+  getContextJots(
+    contextIdOrName: string,
+    limit?: number,
+    includeDescendants = false,
+    topLevel = false
+  ): JotEntry[] {
     const context = this.getContext(contextIdOrName);
     if (!context) {
       throw new Error(`Context '${contextIdOrName}' not found`);
@@ -98,118 +354,866 @@ export class JotService {
 
     return this.repository.searchJots({
       contextId: context.id,
+      includeDescendants,
+      topLevel,
       limit,
       includeExpired: false,
     });
   }
 
   /**
-   * Update a specific jot
+   * Attach child jots (recursively) to listed jots for nested display.
+   * Jots already shown under a listed ancestor are left out of the top level.
    */
-  updateJot(
-    id: number,
-    updates: {
-      message?: string;
-      ttlDays?: number | null;
-      tags?: string[];
-      metadata?: Record<string, string>;
+  expandJots(jots: JotEntry[]): JotEntry[] {
+    const expand = (jot: JotEntry): JotEntry => ({
+      ...jot,
+      children: this.repository.getChildren(jot.id).map(expand),
+    });
+    const expanded = jots.map(expand);
+
+    const nested = new Set<number>();
+    const collect = (jot: JotEntry): void => {
+      for (const child of jot.children ?? []) {
+        nested.add(child.id);
+        collect(child);
+      }
+    };
+    expanded.forEach(collect);
+    return expanded.filter((jot) => !nested.has(jot.id));
+  }
+
+  /**
+   * Recent jots for resuming work, open and in-progress items first
+   */
+  getResumeJots(limit: number, contextIdOrName?: string): JotEntry[] {
+    let contextId: number | undefined;
+    if (contextIdOrName) {
+      const context = this.getContext(contextIdOrName);
+      if (!context) {
+        throw new Error(`Context '${contextIdOrName}' not found`);
+      }
+      contextId = context.id;
     }
-  ): JotEntry | null {
+
+    const active = this.repository.searchJots({
+      contextId,
+      status: ['open', 'in-progress'],
+      limit,
+    });
+    if (active.length >= limit) {
+      return active;
+    }
+
+    const closed = this.repository.searchJots({
+      contextId,
+      status: ['done', 'dropped'],
+      limit: limit - active.length,
+    });
+    return [...active, ...closed];
+  }
+
+  /**
+   * Update a specific jot
+   */
+  updateJot(id: number, updates: UpdateJotOptions, source?: string): JotEntry | null {
     // Convert ttlDays to expiresAt if provided
-    const repoUpdates: {
-      message?: string;
-      expiresAt?: number | null;
-      tags?: string[];
-      metadata?: Record<string, string>;
-    } = {};
+    const { ttlDays, ...rest } = updates;
+    const repoUpdates: JotRecordUpdates = { ...rest };
+    if (ttlDays !== undefined) {
+      repoUpdates.expiresAt = this.calculateExpiration(ttlDays);
+    }
+
+    return this.repository.transaction(() => {
+      const existing = this.repository.getJot(id);
+      if (!existing) return null;
+
+      // A new parent brings the jot and its children into the parent's context
+      let contextId: number | undefined;
+      if (updates.parentId !== undefined && updates.parentId !== null) {
+        contextId = this.checkParent(id, updates.parentId).contextId;
+        repoUpdates.contextId = contextId;
+      }
+
+      const updated = this.repository.updateJot(id, repoUpdates, source)!;
+      if (contextId !== undefined) {
+        for (const descendant of this.getDescendants(id)) {
+          this.repository.updateJot(descendant.id, { contextId }, source);
+        }
+      }
+      if (updated.parentId !== existing.parentId) {
+        this.rollUp(existing.parentId);
+      }
+      if (updated.parentId !== existing.parentId || updated.status !== existing.status) {
+        this.rollUp(updated.parentId);
+      }
+      return this.repository.getJot(id);
+    });
+  }
+
+  /**
+   * Mark a jot as done
+   */
+  completeJot(id: number, source?: string): JotEntry | null {
+    return this.updateJot(id, { status: 'done' }, source);
+  }
+
+  /**
+   * Reopen a done or dropped jot
+   */
+  reopenJot(id: number, source?: string): JotEntry | null {
+    return this.updateJot(id, { status: 'open' }, source);
+  }
+
+  /**
+   * Delete a specific jot
+   */
+  deleteJot(id: number, source?: string, children?: ChildAction): boolean {
+    const jot = this.repository.getJot(id);
+    if (!jot) return false;
 
-    if (updates.message !== undefined) {
-      repoUpdates.message = updates.message;
+    const childJots = this.repository.getChildren(id);
+    if (childJots.length > 0 && !children) {
+      throw new Error(
+        `Jot ${id} has ${childJots.length} child jot${childJots.length !== 1 ? 's' : ''}: ` +
+          'delete with children "orphan" to keep them as top-level jots or "delete" to trash them too'
+      );
     }
-    if (updates.ttlDays !== undefined) {
-      repoUpdates.expiresAt = this.calculateExpiration(updates.ttlDays);
+
+    return this.repository.transaction(() => {
+      if (children === 'orphan') {
+        for (const child of childJots) {
+          this.repository.updateJot(child.id, { parentId: null }, source);
+        }
+      } else if (children === 'delete') {
+        for (const descendant of this.getDescendants(id)) {
+          this.repository.deleteJot(descendant.id, source);
+        }
+      }
+      const deleted = this.repository.deleteJot(id, source);
+      this.rollUp(jot.parentId);
+      return deleted;
+    });
+  }
+
+  /**
+   * Restore a jot from the trash
+   */
+  restoreJot(id: number): JotEntry | null {
+    return this.repository.transaction(() => {
+      const restored = this.repository.restoreJot(id);
+      if (restored) {
+        this.rollUp(restored.parentId);
+      }
+      return restored;
+    });
+  }
+
+  /**
+   * Link a jot to another ("#14 supersedes #12"). Returns false when they are already linked that way;
+   * `relates-to` counts in either direction.
+   */
+  linkJots(id: number, targetId: number, relation: LinkRelation = 'relates-to'): boolean {
+    if (id === targetId) {
+      throw new Error('Cannot link a jot to itself');
     }
-    if (updates.tags !== undefined) {
-      repoUpdates.tags = updates.tags;
+    const jot = this.repository.getJot(id);
+    if (!jot) {
+      throw new Error(`Jot ${id} not found`);
     }
-    if (updates.metadata !== undefined) {
-      repoUpdates.metadata = updates.metadata;
+    if (!this.repository.getJot(targetId)) {
+      throw new Error(`Jot ${targetId} not found`);
     }
 
-    return this.repository.updateJot(id, repoUpdates);
+    const linked = jot.links.some(
+      (link) =>
+        link.jotId === targetId &&
+        link.relation === relation &&
+        (link.direction === 'outgoing' || relation === 'relates-to')
+    );
+    return !linked && this.repository.linkJots(id, targetId, relation);
+  }
+
+  /**
+   * Remove the links between two jots (only those of one relation if given).
+   * Returns the number of links removed.
+   */
+  unlinkJots(id: number, targetId: number, relation?: LinkRelation): number {
+    return this.repository.unlinkJots(id, targetId, relation);
   }
 
   /**
-   * Delete a specific jot
+   * Get a jot with the jots linked to it, following links up to `depth` steps away
    */
-  deleteJot(id: number): boolean {
-    return this.repository.deleteJot(id);
+  getLinkedJots(id: number, depth = 1): LinkedJots {
+    const jot = this.repository.getJot(id);
+    if (!jot) {
+      throw new Error(`Jot ${id} not found`);
+    }
+
+    const seen = new Set([jot.id]);
+    const neighbours: JotEntry[] = [];
+    let frontier = [jot];
+    for (let step = 0; step < depth && frontier.length > 0; step++) {
+      const next: JotEntry[] = [];
+      for (const link of frontier.flatMap((current) => current.links)) {
+        if (seen.has(link.jotId)) continue;
+        seen.add(link.jotId);
+        const neighbour = this.repository.getJot(link.jotId);
+        if (neighbour) {
+          next.push(neighbour);
+        }
+      }
+      neighbours.push(...next);
+      frontier = next;
+    }
+    return { jot, neighbours };
+  }
+
+  /**
+   * Get the revision history of a jot, newest first
+   */
+  getJotHistory(id: number): JotRevision[] {
+    return this.repository.getRevisions(id);
+  }
+
+  /**
+   * Restore a jot to the state captured in one of its revisions
+   */
+  revertJot(id: number, revisionId: number, source?: string): JotEntry {
+    const revision = this.repository.getRevision(revisionId);
+    if (!revision || revision.jotId !== id) {
+      throw new Error(`Revision ${revisionId} not found for jot ${id}`);
+    }
+    return this.restoreSnapshot(revision.snapshot, source);
+  }
+
+  /**
+   * Undo the last change to a jot, or the last jot deletion when no ID is given.
+   * Repeated undos keep going back: each earlier undo skips the change it undid.
+   */
+  undo(id?: number, source?: string): JotEntry {
+    let revision: JotRevision | null = null;
+    if (id !== undefined) {
+      const revisions = this.repository.getRevisions(id);
+      if (revisions.length === 0) {
+        throw new Error(`No history for jot ${id}`);
+      }
+      let undone = 0;
+      for (const candidate of revisions) {
+        if (candidate.action === 'undo') {
+          undone++;
+        } else if (undone > 0) {
+          undone--;
+        } else {
+          revision = candidate;
+          break;
+        }
+      }
+      if (!revision) {
+        throw new Error(`No earlier version of jot ${id} to undo to`);
+      }
+    } else {
+      revision = this.repository.getLastDeletion();
+      if (!revision) {
+        throw new Error('No deleted jots to restore');
+      }
+    }
+    return this.restoreSnapshot(revision.snapshot, source, 'undo');
   }
 
   /**
-   * Clean up expired jots
+   * Archive or delete expired jots (per cleanup mode) and purge trash older than the retention period
    */
   cleanupExpired(): number {
-    return this.repository.deleteExpiredJots();
+    const { mode, trashRetentionDays } = this.config.cleanup;
+    const trashCutoff = Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000;
+    const expired =
+      mode === 'archive'
+        ? this.repository.archiveExpiredJots()
+        : this.repository.deleteExpiredJots();
+    return expired + this.repository.purgeTrash(trashCutoff);
   }
 
   /**
    * Get jots expiring soon
    */
-  getExpiringSoon(days: number = 3): JotEntry[] {
-    return this.repository.getExpiringSoon(days);
+  getExpiringSoon(
+    days: number = this.config.expiringSoonDays,
+    contextIdOrName?: number | string
+  ): JotEntry[] {
+    return this.repository.getExpiringSoon(days, this.resolveContextId(contextIdOrName));
+  }
+
+  /**
+   * Count jots per metadata key, or per value of one key, optionally within a context
+   */
+  countMetadata(key?: string, contextIdOrName?: number | string, limit?: number): UsageCount[] {
+    return this.repository.countMetadata(key, this.resolveContextId(contextIdOrName), limit);
+  }
+
+  /**
+   * Jots anchored to a file (or anything under a directory) or mentioning its path, optionally within a context
+   */
+  getJotsForPath(path: string, contextIdOrName?: number | string, limit?: number): JotEntry[] {
+    if (!path.trim()) {
+      throw new Error('path is required');
+    }
+    return this.repository.getJotsForPath(path, this.resolveContextId(contextIdOrName), limit);
+  }
+
+  /**
+   * Count jots per tag, optionally within a context
+   */
+  countTags(contextIdOrName?: number | string, limit?: number): UsageCount[] {
+    return this.repository.countTags(this.resolveContextId(contextIdOrName), limit);
+  }
+
+  /**
+   * Rename a tag (and its child tags) on all jots, merging it into `newTag` if that exists.
+   * Returns the number of jots changed.
+   */
+  renameTag(tag: string, newTag: string): number {
+    const [from] = normalizeTags([tag]);
+    const [to] = normalizeTags([newTag]);
+    if (!from || !to) {
+      throw new Error('Tag names must not be empty');
+    }
+    if (to.startsWith(`${from}/`)) {
+      throw new Error(`Cannot rename tag '${from}' into its own child '${to}'`);
+    }
+    return this.repository.renameTag(from, to);
+  }
+
+  /**
+   * Remove a tag (and its child tags) from all jots. Returns the number of jots changed.
+   */
+  deleteTag(tag: string): number {
+    const [normalized] = normalizeTags([tag]);
+    if (!normalized) {
+      throw new Error('Tag names must not be empty');
+    }
+    return this.repository.deleteTag(normalized);
+  }
+
+  /**
+   * Find clusters of duplicate jots within each context (or one context) and, unless `dryRun`,
+   * merge each into its oldest jot: that jot gets the union of their tags, metadata and anchors
+   * (its own values win), the longest expiration and their children, and the others move to the trash.
+   */
+  dedupeJots(
+    options: { context?: number | string; threshold?: number; dryRun?: boolean } = {}
+  ): DuplicateCluster[] {
+    const threshold = options.threshold ?? this.config.duplicates.threshold;
+    // Jots are only compared with others in the same context under the same parent
+    const groups = new Map<string, JotEntry[]>();
+    for (const jot of this.repository.searchJots({ contextId: this.resolveContextId(options.context) })) {
+      const key = `${jot.contextId}:${jot.parentId}`;
+      groups.set(key, [...(groups.get(key) ?? []), jot]);
+    }
+    const clusters = [...groups.values()].flatMap((jots) => findDuplicateClusters(jots, threshold));
+    if (options.dryRun) {
+      return clusters;
+    }
+
+    return this.repository.transaction(() =>
+      clusters.map((cluster) => {
+        const jots = [cluster.keep, ...cluster.duplicates.map((duplicate) => duplicate.jot)];
+        const expirations = jots.map((jot) => jot.expiresAt);
+        const keep = this.repository.updateJot(
+          cluster.keep.id,
+          {
+            tags: [...new Set(jots.flatMap((jot) => jot.tags))],
+            metadata: Object.assign({}, ...jots.map((jot) => jot.metadata).reverse()),
+            anchors: jots.reduce((anchors: CodeAnchor[], jot) => mergeAnchors(anchors, jot.anchors), []),
+            expiresAt: expirations.includes(null) ? null : Math.max(...(expirations as number[])),
+          },
+          DEDUPE_SOURCE
+        )!;
+        for (const duplicate of cluster.duplicates) {
+          this.adoptChildren(duplicate.jot.id, keep.id, DEDUPE_SOURCE);
+          this.repository.deleteJot(duplicate.jot.id, DEDUPE_SOURCE);
+        }
+        this.rollUp(keep.parentId);
+        return { ...cluster, keep: this.repository.getJot(keep.id)! };
+      })
+    );
+  }
+
+  /**
+   * Extend the TTL of one or more jots, counting from now (0 makes them permanent).
+   * Archived jots are brought back. Returns the renewed jots; unknown IDs are skipped.
+   */
+  renewJots(ids: number[], ttlDays?: number, source?: string): JotEntry[] {
+    const expiresAt = this.calculateExpiration(ttlDays);
+    return this.repository.transaction(() =>
+      ids
+        .map((id) => this.repository.updateJot(id, { expiresAt }, source))
+        .filter((jot): jot is JotEntry => jot !== null)
+    );
+  }
+
+  /**
+   * Export contexts and their jots (including expired ones) as a portable document.
+   * Child jots refer to their parent, and links to the linked jot, by its position in the document.
+   */
+  exportData(contextIdOrName?: number | string): ExportDocument {
+    let contexts: Context[];
+    if (contextIdOrName !== undefined) {
+      const context = this.getContext(contextIdOrName);
+      if (!context) {
+        throw new Error(`Context '${contextIdOrName}' not found`);
+      }
+      contexts = [context];
+    } else {
+      contexts = this.repository.listContexts(true);
+    }
+
+    const doc: ExportDocument = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: Date.now(),
+      contexts: [],
+      jots: [],
+    };
+    const indexes = new Map<number, number>();
+    const parents: (number | null)[] = [];
+    const links: JotLink[][] = [];
+
+    for (const context of contexts) {
+      doc.contexts.push({
+        name: context.name,
+        repository: context.repository,
+        parent: context.parentId !== null ? (this.getContext(context.parentId)?.name ?? null) : null,
+        description: context.description,
+        status: context.status,
+        defaultTtlDays: context.defaultTtlDays,
+        defaultTags: context.defaultTags,
+        createdAt: context.createdAt,
+        updatedAt: context.updatedAt,
+      });
+
+      const jots = this.repository.searchJots({ contextId: context.id, includeExpired: true });
+      // Oldest first so an import recreates jots in their original order
+      for (const jot of jots.reverse()) {
+        indexes.set(jot.id, doc.jots.length);
+        parents.push(jot.parentId);
+        links.push(jot.links.filter((link) => link.direction === 'outgoing'));
+        doc.jots.push({
+          context: context.name,
+          message: jot.message,
+          createdAt: jot.createdAt,
+          updatedAt: jot.updatedAt,
+          expiresAt: jot.expiresAt,
+          status: jot.status,
+          completedAt: jot.completedAt,
+          priority: jot.priority,
+          pinned: jot.pinned,
+          tags: jot.tags,
+          metadata: jot.metadata,
+          anchors: jot.anchors,
+        });
+      }
+    }
+
+    parents.forEach((parentId, index) => {
+      const parent = parentId !== null ? indexes.get(parentId) : undefined;
+      if (parent !== undefined) {
+        doc.jots[index].parent = parent;
+      }
+    });
+    links.forEach((outgoing, index) => {
+      const exported = outgoing
+        .filter((link) => indexes.has(link.jotId))
+        .map((link) => ({ jot: indexes.get(link.jotId)!, relation: link.relation }));
+      if (exported.length > 0) {
+        doc.jots[index].links = exported;
+      }
+    });
+    return doc;
+  }
+
+  /**
+   * Render a context as a Markdown handoff document (defaults to the current context)
+   */
+  exportMarkdown(contextIdOrName?: string, groupBy: MarkdownGroupBy = 'tag', cwd?: string): string {
+    const name = contextIdOrName || this.detectContextName(cwd);
+    const context = this.getContext(name);
+    if (!context) {
+      throw new Error(`Context '${name}' not found`);
+    }
+
+    return formatContextMarkdown(context, this.getContextJots(context.name), groupBy);
   }
 
   /**
-   * Detect context name from git repository or working directory
+   * Import an export document.
+   * A jot conflicts with an existing one when both live in the same context
+   * and have the same content hash; the strategy decides what happens then:
+   * - skip: keep the existing jot untouched
+   * - overwrite: replace tags, metadata and expiration with the imported ones
+   * - merge: union tags and metadata (existing values win), keep the later expiration
+   * Parents are imported before their children; skipped and merged jots keep their parent.
+   * Links are recreated once all jots are in, except those from skipped jots.
    */
-  private detectContextName(): string {
-    try {
-      // Try to get repo name from git
-      const repoUrl = execSync('git config --get remote.origin.url', {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'ignore'],
-      }).trim();
+  importData(doc: ExportDocument, strategy: ImportStrategy = 'skip'): ImportResult {
+    const result: ImportResult = { created: 0, updated: 0, skipped: 0 };
+
+    this.repository.transaction(() => {
+      // Shorter names first so parents exist before their branch contexts
+      const contexts = [...doc.contexts].sort((a, b) => a.name.length - b.name.length);
+      for (const ctx of contexts) {
+        const existed = this.repository.getContextByName(ctx.name, true) !== null;
+        const context = this.ensureContext(ctx.name, ctx.repository, ctx.parent);
+        if (!existed) {
+          // Settings of contexts that already exist here are left alone
+          this.repository.updateContext(context.id, {
+            description: ctx.description,
+            status: ctx.status,
+            defaultTtlDays: ctx.defaultTtlDays,
+            defaultTags: ctx.defaultTags,
+          });
+        }
+      }
 
-      const repoName = repoUrl
-        .split('/')
-        .pop()
-        ?.replace('.git', '') || 'unknown';
+      const hashIndex = new Map<number, Map<string, JotEntry>>();
+      const importedJots = new Map<number, JotEntry>(); // By position in the document
+      const parentIds = new Set<number>();
+      const skipped = new Set<number>();
 
-      // Get branch name
-      const branch = execSync('git rev-parse --abbrev-ref HEAD', {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'ignore'],
-      }).trim();
+      for (const index of parentsFirst(doc.jots)) {
+        const imported = doc.jots[index];
+        const context = this.ensureContext(imported.context);
 
-      // Combine for context name
-      if (branch === 'main' || branch === 'master') {
-        return repoName;
+        let existingByHash = hashIndex.get(context.id);
+        if (!existingByHash) {
+          existingByHash = new Map();
+          for (const jot of this.repository.searchJots({ contextId: context.id, includeExpired: true })) {
+            existingByHash.set(contentHash(jot.message), jot);
+          }
+          hashIndex.set(context.id, existingByHash);
+        }
+
+        const hash = contentHash(imported.message);
+        const existing = existingByHash.get(hash);
+        const tags = imported.tags ?? [];
+        const metadata = imported.metadata ?? {};
+        const expiresAt = imported.expiresAt ?? null;
+        // Only a parent in the same context is taken over
+        const parent =
+          imported.parent !== undefined && imported.parent !== null ? importedJots.get(imported.parent) : undefined;
+        const parentId = parent?.contextId === context.id ? parent.id : undefined;
+        if (parentId !== undefined) {
+          parentIds.add(parentId);
+        }
+
+        if (!existing) {
+          const created = this.repository.createJot(context.id, imported.message, expiresAt, tags, metadata, {
+            createdAt: imported.createdAt,
+            updatedAt: imported.updatedAt,
+            status: imported.status,
+            completedAt: imported.completedAt,
+            priority: imported.priority,
+            pinned: imported.pinned,
+            anchors: imported.anchors,
+            parentId,
+          });
+          existingByHash.set(hash, created);
+          importedJots.set(index, created);
+          result.created++;
+          continue;
+        }
+
+        importedJots.set(index, existing);
+        if (strategy === 'skip') {
+          skipped.add(index);
+          result.skipped++;
+          continue;
+        }
+
+        const reparent =
+          parentId !== undefined &&
+          parentId !== existing.id &&
+          (strategy === 'overwrite' || existing.parentId === null) &&
+          !this.getDescendants(existing.id).some((jot) => jot.id === parentId);
+
+        const updated =
+          strategy === 'overwrite'
+            ? this.repository.updateJot(
+                existing.id,
+                {
+                  expiresAt,
+                  status: imported.status,
+                  priority: imported.priority,
+                  pinned: imported.pinned,
+                  tags,
+                  metadata,
+                  anchors: imported.anchors,
+                  parentId: reparent ? parentId : undefined,
+                },
+                IMPORT_SOURCE
+              )
+            : this.repository.updateJot(
+                existing.id,
+                {
+                  expiresAt: laterExpiration(existing.expiresAt, expiresAt),
+                  tags: [...new Set([...existing.tags, ...tags])],
+                  metadata: { ...metadata, ...existing.metadata },
+                  anchors: mergeAnchors(existing.anchors, imported.anchors ?? []),
+                  parentId: reparent ? parentId : undefined,
+                },
+                IMPORT_SOURCE
+              );
+        if (updated) {
+          existingByHash.set(hash, updated);
+          importedJots.set(index, updated);
+        }
+        result.updated++;
       }
-      return `${repoName}/${branch}`;
-    } catch {
-      // Not in a git repo, try to use directory name
-      try {
-        const cwd = process.cwd();
-        const dirName = cwd.split('/').pop() || cwd.split('\\').pop();
-        if (dirName && dirName !== '/' && dirName !== '\\') {
-          return dirName;
+
+      // Children may have joined parents that were already here
+      for (const parentId of parentIds) {
+        this.rollUp(parentId);
+      }
+
+      doc.jots.forEach((imported, index) => {
+        const from = importedJots.get(index);
+        if (!from || skipped.has(index)) return;
+        for (const link of imported.links ?? []) {
+          const to = importedJots.get(link.jot);
+          if (to && to.id !== from.id) {
+            this.linkJots(from.id, to.id, link.relation);
+          }
         }
-      } catch {
-        // Fallback to default
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Write a snapshot back, updating the jot or recreating it under its original ID,
+   * and roll completion up to its old and new parent
+   */
+  private restoreSnapshot(snapshot: JotEntry, source?: string, action: RevisionAction = 'revert'): JotEntry {
+    // Back under the original parent when it is still around (snapshots before child jots have none)
+    const parentId =
+      snapshot.parentId !== undefined && (snapshot.parentId === null || this.repository.getJot(snapshot.parentId))
+        ? snapshot.parentId
+        : undefined;
+
+    return this.repository.transaction(() => {
+      const previousParentId = this.repository.getJot(snapshot.id, true)?.parentId ?? null;
+      const restored = this.writeSnapshot(snapshot, parentId, source, action);
+      if (restored.parentId !== previousParentId) {
+        this.rollUp(previousParentId);
+      }
+      this.rollUp(restored.parentId);
+      return this.repository.getJot(restored.id)!;
+    });
+  }
+
+  /**
+   * Update the jot to a snapshot, or recreate it under its original ID when it was purged
+   */
+  private writeSnapshot(
+    snapshot: JotEntry,
+    parentId: number | null | undefined,
+    source: string | undefined,
+    action: RevisionAction
+  ): JotEntry {
+    // A trashed jot is brought back first, then set to the snapshot
+    this.repository.restoreJot(snapshot.id);
+
+    if (this.repository.getJot(snapshot.id)) {
+      return this.repository.updateJot(
+        snapshot.id,
+        {
+          // Back to the original context when it still exists
+          contextId: this.repository.getContext(snapshot.contextId) ? snapshot.contextId : undefined,
+          parentId,
+          message: snapshot.message,
+          expiresAt: snapshot.expiresAt,
+          status: snapshot.status,
+          completedAt: snapshot.completedAt,
+          priority: snapshot.priority,
+          pinned: snapshot.pinned,
+          tags: snapshot.tags,
+          metadata: snapshot.metadata,
+          anchors: snapshot.anchors,
+        },
+        source,
+        action
+      )!;
+    }
+
+    if (!this.repository.getContext(snapshot.contextId)) {
+      throw new Error(`Cannot restore jot ${snapshot.id}: its context no longer exists`);
+    }
+    return this.repository.createJot(
+      snapshot.contextId,
+      snapshot.message,
+      snapshot.expiresAt,
+      snapshot.tags,
+      snapshot.metadata,
+      {
+        id: snapshot.id,
+        createdAt: snapshot.createdAt,
+        updatedAt: snapshot.updatedAt,
+        status: snapshot.status,
+        completedAt: snapshot.completedAt,
+        priority: snapshot.priority,
+        pinned: snapshot.pinned,
+        parentId,
+        anchors: snapshot.anchors,
+      }
+    );
+  }
+
+  /**
+   * Check that a jot can become a child of another; returns the parent
+   */
+  private checkParent(id: number, parentId: number): JotEntry {
+    if (parentId === id) {
+      throw new Error(`Cannot make jot ${id} its own parent`);
+    }
+    const parent = this.repository.getJot(parentId);
+    if (!parent) {
+      throw new Error(`Parent jot ${parentId} not found`);
+    }
+    for (let ancestor: JotEntry | null = parent; ancestor; ) {
+      if (ancestor.id === id) {
+        throw new Error(`Cannot make jot ${id} a child of its own child ${parentId}`);
+      }
+      ancestor = ancestor.parentId !== null ? this.repository.getJot(ancestor.parentId) : null;
+    }
+    return parent;
+  }
+
+  /**
+   * Hand the children of a jot about to be trashed over to the jot that replaces it
+   */
+  private adoptChildren(fromId: number, toId: number, source: string): void {
+    const children = this.repository.getChildren(fromId);
+    for (const child of children) {
+      this.repository.updateJot(child.id, { parentId: toId }, source);
+    }
+    if (children.length > 0) {
+      this.rollUp(toId);
+    }
+  }
+
+  /**
+   * Children, grandchildren and so on of a jot, outside the trash
+   */
+  private getDescendants(id: number): JotEntry[] {
+    return this.repository.getChildren(id).flatMap((child) => [child, ...this.getDescendants(child.id)]);
+  }
+
+  /**
+   * Roll child completion up to a parent (and its ancestors): a parent whose children are all
+   * done or dropped is completed, and a completed parent with an open child is reopened
+   */
+  private rollUp(parentId: number | null): void {
+    let parent = parentId !== null ? this.repository.getJot(parentId) : null;
+    while (parent?.progress) {
+      const allClosed = parent.progress.closed === parent.progress.total;
+      let status: JotStatus | null = null;
+      if (allClosed && parent.status !== 'done' && parent.status !== 'dropped') {
+        status = 'done';
+      } else if (!allClosed && parent.status === 'done') {
+        status = 'open';
+      }
+      if (!status) return;
+
+      this.repository.updateJot(parent.id, { status }, ROLLUP_SOURCE);
+      parent = parent.parentId !== null ? this.repository.getJot(parent.parentId) : null;
+    }
+  }
+
+  /**
+   * ID of a context given by ID or name (undefined when none is given)
+   */
+  private resolveContextId(contextIdOrName?: number | string): number | undefined {
+    if (contextIdOrName === undefined) {
+      return undefined;
+    }
+    const context = this.getContext(contextIdOrName);
+    if (!context) {
+      throw new Error(`Context '${contextIdOrName}' not found`);
+    }
+    return context.id;
+  }
+
+  /**
+   * Detect the context for a directory (default: workspace root, then the server's cwd).
+   * A repository whose name is already used by a different owner's repository gets an owner/repo name.
+   */
+  private detectContext(cwd?: string): DetectedContext {
+    const dir = cwd ?? this.workspaceRoot ?? process.cwd();
+    const detected = detectContext(dir, this.getConfig(cwd).contextNaming, this.strategies);
+    if (!detected.qualifiedName || !detected.repository) {
+      return detected;
+    }
+
+    const existing = this.repository.getContextByName(detected.name, true);
+    if (existing?.repository) {
+      const existingOwner = parseRemoteUrl(existing.repository)?.owner;
+      const detectedOwner = parseRemoteUrl(detected.repository)?.owner;
+      if (existingOwner && detectedOwner && existingOwner !== detectedOwner) {
+        return {
+          ...detected,
+          name: detected.qualifiedName,
+          parentName: detected.parentName && `${detectedOwner}/${detected.parentName}`,
+        };
       }
-      return 'general';
     }
+    return detected;
+  }
+
+  /**
+   * Create or get a context, placing it under its parent (given, or found by its "repo/branch" name)
+   */
+  private ensureContext(name: string, repository?: string | null, parentName?: string | null): Context {
+    const parent = parentName
+      ? this.ensureContext(parentName, repository)
+      : this.repository.findParentContext(name);
+
+    // Never create a cycle (possible with parents from an import)
+    const existing = this.repository.getContextByName(name, true);
+    const parentId = parent && !(existing && this.isWithin(parent, existing.id)) ? parent.id : undefined;
+    return this.repository.upsertContext(name, repository ?? undefined, parentId);
+  }
+
+  /**
+   * Whether a context is the given one or one of its descendants
+   */
+  private isWithin(context: Context, ancestorId: number): boolean {
+    const seen = new Set<number>();
+    let current: Context | null = context;
+    while (current && !seen.has(current.id)) {
+      if (current.id === ancestorId) return true;
+      seen.add(current.id);
+      current = current.parentId !== null ? this.repository.getContext(current.parentId, true) : null;
+    }
+    return false;
+  }
+
+  private detectContextName(cwd?: string): string {
+    return this.detectContext(cwd).name;
   }
 
   /**
    * Calculate expiration timestamp
    */
-  private calculateExpiration(ttlDays?: number | null): number | null {
+  private calculateExpiration(
+    ttlDays?: number | null,
+    defaultTtlDays: number = this.config.defaultTtlDays
+  ): number | null {
     if (ttlDays === null || ttlDays === undefined) {
-      // Use default TTL
-      const days = DEFAULT_TTL_DAYS;
-      return Date.now() + days * 24 * 60 * 60 * 1000;
+      // Use configured default TTL (0 makes new jots permanent)
+      const days = defaultTtlDays;
+      return days === 0 ? null : Date.now() + days * 24 * 60 * 60 * 1000;
     }
 
     if (ttlDays === 0) {
@@ -221,3 +1225,42 @@ export class JotService {
     return Date.now() + ttlDays * 24 * 60 * 60 * 1000;
   }
 }
+
+/**
+ * Pick the later of two expirations, null (permanent) always wins
+ */
+function laterExpiration(a: number | null, b: number | null): number | null {
+  if (a === null || b === null) return null;
+  return Math.max(a, b);
+}
+
+/**
+ * Positions of exported jots in import order: each parent before its children
+ * (a cycle of parents is broken where it is found)
+ */
+function parentsFirst(jots: ExportedJot[]): number[] {
+  const order: number[] = [];
+  const visited = new Set<number>();
+  const visit = (index: number): void => {
+    if (visited.has(index)) return;
+    visited.add(index);
+    const parent = jots[index].parent;
+    if (parent !== undefined && parent !== null && jots[parent]) {
+      visit(parent);
+    }
+    order.push(index);
+  };
+  jots.forEach((_, index) => visit(index));
+  return order;
+}
+
+/**
+ * Anchors of both jots, each place once
+ */
+function mergeAnchors(existing: CodeAnchor[], added: CodeAnchor[]): CodeAnchor[] {
+  const anchors = new Map<string, CodeAnchor>();
+  for (const anchor of [...existing, ...normalizeAnchors(added)]) {
+    anchors.set(JSON.stringify(anchor), anchor);
+  }
+  return [...anchors.values()];
+}
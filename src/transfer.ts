@@ -0,0 +1,189 @@
+/**
+ * Serialization of export documents (JSON and NDJSON)
+ */
+
+import { createHash } from 'crypto';
+import {
+  CONTEXT_STATUSES,
+  ExportDocument,
+  ExportFormat,
+  ExportedContext,
+  ExportedJot,
+  ImportStrategy,
+  JOT_PRIORITIES,
+  JOT_STATUSES,
+  LINK_RELATIONS,
+} from './types.js';
+
+export const EXPORT_FORMAT = 'jot-mcp';
+export const EXPORT_VERSION = 1;
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'ndjson'];
+
+export const IMPORT_STRATEGIES: readonly ImportStrategy[] = ['skip', 'overwrite', 'merge'];
+
+/**
+ * Hash used to recognise the same jot across databases
+ */
+export function contentHash(message: string): string {
+  return createHash('sha256').update(message.trim()).digest('hex');
+}
+
+/**
+ * Serialize an export document.
+ * NDJSON puts a header line first, then one line per context and per jot.
+ */
+export function serializeExport(doc: ExportDocument, format: ExportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(doc, null, 2);
+  }
+
+  const lines: string[] = [
+    JSON.stringify({
+      type: 'header',
+      format: doc.format,
+      version: doc.version,
+      exportedAt: doc.exportedAt,
+    }),
+  ];
+  for (const context of doc.contexts) {
+    lines.push(JSON.stringify({ type: 'context', ...context }));
+  }
+  for (const jot of doc.jots) {
+    lines.push(JSON.stringify({ type: 'jot', ...jot }));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a JSON or NDJSON export document
+ */
+export function parseExport(text: string): ExportDocument {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Import data is empty');
+  }
+
+  let doc: ExportDocument;
+  try {
+    doc = parseJson(trimmed);
+  } catch {
+    doc = parseNdjson(trimmed);
+  }
+
+  validateDocument(doc);
+  return doc;
+}
+
+function parseJson(text: string): ExportDocument {
+  const parsed = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.jots)) {
+    throw new Error('Not a JSON export document');
+  }
+  return parsed as ExportDocument;
+}
+
+function parseNdjson(text: string): ExportDocument {
+  const contexts: ExportedContext[] = [];
+  const jots: ExportedJot[] = [];
+  let header: { format?: string; version?: number; exportedAt?: number } | null = null;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid import data on line ${i + 1}`);
+    }
+
+    const { type, ...fields } = record ?? {};
+    switch (type) {
+      case 'header':
+        header = fields;
+        break;
+      case 'context':
+        contexts.push(fields as ExportedContext);
+        break;
+      case 'jot':
+        jots.push(fields as ExportedJot);
+        break;
+      default:
+        throw new Error(`Unknown record type on line ${i + 1}: ${type}`);
+    }
+  }
+
+  if (!header) {
+    throw new Error('Import data is missing a header record');
+  }
+
+  return {
+    format: header.format as ExportDocument['format'],
+    version: header.version as number,
+    exportedAt: header.exportedAt as number,
+    contexts,
+    jots,
+  };
+}
+
+function validateDocument(doc: ExportDocument): void {
+  if (doc.format !== EXPORT_FORMAT) {
+    throw new Error(`Unsupported import format: ${doc.format}`);
+  }
+  if (typeof doc.version !== 'number' || doc.version > EXPORT_VERSION) {
+    throw new Error(
+      `Import version ${doc.version} is not supported (max ${EXPORT_VERSION}). Please upgrade jot-mcp.`
+    );
+  }
+  if (!Array.isArray(doc.contexts)) {
+    doc.contexts = [];
+  }
+
+  for (const context of doc.contexts) {
+    if (typeof context.name !== 'string') {
+      throw new Error('Invalid context record: name is required');
+    }
+    if (context.status !== undefined && !CONTEXT_STATUSES.includes(context.status)) {
+      throw new Error(`Invalid context record: unknown status '${context.status}'`);
+    }
+  }
+
+  for (const [index, jot] of doc.jots.entries()) {
+    if (typeof jot.context !== 'string' || typeof jot.message !== 'string') {
+      throw new Error('Invalid jot record: context and message are required');
+    }
+    if (jot.status !== undefined && !JOT_STATUSES.includes(jot.status)) {
+      throw new Error(`Invalid jot record: unknown status '${jot.status}'`);
+    }
+    if (jot.priority !== undefined && !JOT_PRIORITIES.includes(jot.priority)) {
+      throw new Error(`Invalid jot record: unknown priority '${jot.priority}'`);
+    }
+    if (jot.anchors !== undefined && !Array.isArray(jot.anchors)) {
+      throw new Error('Invalid jot record: anchors must be a list');
+    }
+    if (
+      jot.parent !== undefined &&
+      jot.parent !== null &&
+      (!Number.isInteger(jot.parent) || jot.parent < 0 || jot.parent >= doc.jots.length || jot.parent === index)
+    ) {
+      throw new Error(`Invalid jot record: unknown parent ${jot.parent}`);
+    }
+    if (jot.links !== undefined) {
+      if (!Array.isArray(jot.links)) {
+        throw new Error('Invalid jot record: links must be a list');
+      }
+      for (const link of jot.links) {
+        if (!Number.isInteger(link?.jot) || link.jot < 0 || link.jot >= doc.jots.length || link.jot === index) {
+          throw new Error(`Invalid jot record: unknown linked jot ${link?.jot}`);
+        }
+        if (!LINK_RELATIONS.includes(link.relation)) {
+          throw new Error(`Invalid jot record: unknown link relation '${link.relation}'`);
+        }
+      }
+    }
+  }
+}
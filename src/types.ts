@@ -2,41 +2,358 @@
  * Core domain types for Jot MCP
  */
 
+export type JotStatus = 'open' | 'in-progress' | 'done' | 'dropped';
+
+export const JOT_STATUSES: readonly JotStatus[] = ['open', 'in-progress', 'done', 'dropped'];
+
+export type JotPriority = 'low' | 'normal' | 'high' | 'critical';
+
+export const JOT_PRIORITIES: readonly JotPriority[] = ['low', 'normal', 'high', 'critical'];
+
+/**
+ * Sort order for searches: best full-text match, newest created or updated, or soonest to expire
+ */
+export type JotOrder = 'relevance' | 'created' | 'updated' | 'expires';
+
+export const JOT_ORDERS: readonly JotOrder[] = ['relevance', 'created', 'updated', 'expires'];
+
+/**
+ * How a query matches: keywords (FTS5), meaning (embedding similarity), or both blended
+ */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export const SEARCH_MODES: readonly SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+/**
+ * Whether a tag filter needs any or all of its tags
+ */
+export type TagMode = 'any' | 'all';
+
+export const TAG_MODES: readonly TagMode[] = ['any', 'all'];
+
+/**
+ * What cleanup does with expired jots
+ */
+export type CleanupMode = 'delete' | 'archive';
+
+export const CLEANUP_MODES: readonly CleanupMode[] = ['delete', 'archive'];
+
 export interface JotEntry {
   id: number;
   contextId: number;
+  parentId: number | null; // Child jots (sub-steps) share their parent's context
   message: string;
   createdAt: number; // Unix timestamp
   updatedAt: number; // Unix timestamp (not exposed via MCP yet)
   expiresAt: number | null; // Unix timestamp, null for permanent jots
+  status: JotStatus;
+  completedAt: number | null; // Set when status becomes done or dropped
+  priority: JotPriority;
+  pinned: boolean; // Pinned jots are listed before everything else
+  deletedAt: number | null; // Set while the jot is in the trash
+  archivedAt: number | null; // Set when cleanup archived the jot after it expired
   tags: string[];
   metadata: Record<string, string>;
+  links: JotLink[]; // Links to and from other jots outside the trash
+  anchors: CodeAnchor[]; // Places in the code the jot is about
+  progress?: { closed: number; total: number }; // Child jots done or dropped, set when the jot has children
+  children?: JotEntry[]; // Child jots, set when a listing is expanded
+  snippet?: string; // Matched excerpt with **highlighted** terms, set by full-text searches
+  duplicate?: DuplicateMatch; // Set by createJot when the context already has a similar jot
+}
+
+/**
+ * What deleting a jot does with its child jots: make them top-level or trash them too
+ */
+export type ChildAction = 'orphan' | 'delete';
+
+export const CHILD_ACTIONS: readonly ChildAction[] = ['orphan', 'delete'];
+
+/**
+ * How one jot relates to another: "#14 supersedes #12", "#41 is a follow-up to #40"
+ */
+export type LinkRelation = 'relates-to' | 'blocks' | 'supersedes' | 'follow-up';
+
+export const LINK_RELATIONS: readonly LinkRelation[] = ['relates-to', 'blocks', 'supersedes', 'follow-up'];
+
+/**
+ * A link seen from one of its jots: outgoing links start at the jot, incoming ones point at it
+ */
+export interface JotLink {
+  jotId: number; // The jot at the other end
+  relation: LinkRelation;
+  direction: 'outgoing' | 'incoming';
 }
 
+/**
+ * A jot with the jots reachable through its links
+ */
+export interface LinkedJots {
+  jot: JotEntry;
+  neighbours: JotEntry[]; // Nearest first
+}
+
+/**
+ * A place in the code: `src/worker.ts` lines 40-52 around `flushQueue`, as of a commit
+ */
+export interface CodeAnchor {
+  path: string; // File or directory, relative to the repository root
+  startLine?: number;
+  endLine?: number;
+  symbol?: string; // Function, class or other name at the location
+  commit?: string; // SHA the lines refer to
+}
+
+/**
+ * What creating a jot does when its context already has a jot with the same or a similar message
+ */
+export type DuplicateAction = 'create' | 'reuse';
+
+export const DUPLICATE_ACTIONS: readonly DuplicateAction[] = ['create', 'reuse'];
+
+/**
+ * An existing jot found to duplicate a new one
+ * (when the existing jot was reused instead, it is returned and `jotId` is its own ID)
+ */
+export interface DuplicateMatch {
+  jotId: number;
+  similarity: number; // 1 for the same normalised message
+}
+
+/**
+ * Jots with the same or similar messages; the oldest is kept when they are merged
+ */
+export interface DuplicateCluster {
+  keep: JotEntry;
+  duplicates: { jot: JotEntry; similarity: number }[];
+}
+
+/**
+ * What happened to a jot when a revision was recorded
+ */
+export type RevisionAction = 'update' | 'delete' | 'revert' | 'undo';
+
+/**
+ * A prior version of a jot, captured before it was changed or deleted
+ */
+export interface JotRevision {
+  id: number;
+  jotId: number;
+  action: RevisionAction;
+  source: string; // Tool or operation that made the change, e.g. "jot:update"
+  snapshot: JotEntry; // The jot as it was before the change
+  createdAt: number;
+}
+
+/**
+ * Archived contexts are hidden from listings but their jots stay searchable
+ */
+export type ContextStatus = 'active' | 'archived';
+
+export const CONTEXT_STATUSES: readonly ContextStatus[] = ['active', 'archived'];
+
 export interface Context {
   id: number;
   name: string;
   repository: string | null;
+  description: string | null; // Goal or summary of the work
+  status: ContextStatus;
+  defaultTtlDays: number | null; // TTL for new jots, overriding the configured default
+  defaultTags: string[]; // Added to every new jot
   createdAt: number;
   updatedAt: number;
+  deletedAt: number | null; // Set while the context is in the trash
+  parentId: number | null; // Repository context of a branch context
   jotCount: number;
 }
 
 export interface SearchOptions {
   contextId?: number;
+  includeDescendants?: boolean; // With contextId, also search its child contexts
   query?: string;
-  tags?: string[];
+  mode?: SearchMode; // Default: keyword
+  tags?: string[]; // Hierarchical: `area` also matches `area/db`
+  tagMode?: TagMode; // Default: any
+  excludeTags?: string[];
+  status?: JotStatus[];
+  priority?: JotPriority[];
+  pinned?: boolean;
   fromDate?: number;
   toDate?: number;
   includeExpired?: boolean;
+  trash?: boolean; // Only jots in the trash (expired ones included)
+  archived?: boolean; // Only expired jots kept in the archive
+  metadata?: MetadataFilter[]; // Every filter must match
+  topLevel?: boolean; // Only jots without a parent
+  path?: string; // Anchored to this file, or to anything under this directory
+  orderBy?: JotOrder; // Defaults to relevance with a query, otherwise pinned and priority first
   limit?: number;
 }
 
+/**
+ * Metadata filter: the key is present, its value equals `value`, or starts with it when `prefix` is set
+ */
+export interface MetadataFilter {
+  key: string;
+  value?: string;
+  prefix?: boolean;
+}
+
+/**
+ * A tag, metadata key or metadata value with the number of live jots using it
+ */
+export interface UsageCount {
+  name: string;
+  jotCount: number;
+}
+
 export interface CreateJotOptions {
   message: string;
   contextId?: number;
   contextName?: string;
+  cwd?: string; // Directory to detect the context from when no context is given
   ttlDays?: number; // null or 0 means permanent
+  status?: JotStatus;
+  priority?: JotPriority;
+  pinned?: boolean;
+  tags?: string[];
+  metadata?: Record<string, string>;
+  parentId?: number; // Makes the jot a child of another, in the parent's context
+  anchors?: CodeAnchor[];
+  onDuplicate?: DuplicateAction; // Overrides the configured action
+}
+
+export interface UpdateContextOptions {
+  description?: string | null;
+  status?: ContextStatus;
+  defaultTtlDays?: number | null; // null clears, 0 means permanent
+  defaultTags?: string[];
+}
+
+export interface UpdateJotOptions {
+  message?: string;
+  parentId?: number | null; // null makes the jot top-level again
+  ttlDays?: number | null; // null uses the default TTL, 0 means permanent
+  status?: JotStatus;
+  priority?: JotPriority;
+  pinned?: boolean;
   tags?: string[];
   metadata?: Record<string, string>;
+  anchors?: CodeAnchor[]; // Replaces all anchors
+}
+
+export type ExportFormat = 'json' | 'ndjson';
+
+export type MarkdownGroupBy = 'tag' | 'day';
+
+/**
+ * Default format for exports (the export formats plus Markdown handoff)
+ */
+export type OutputFormat = ExportFormat | 'markdown';
+
+/**
+ * How imported jots that already exist (same context, same content hash) are handled
+ */
+export type ImportStrategy = 'skip' | 'overwrite' | 'merge';
+
+export interface ExportedContext {
+  name: string;
+  repository: string | null;
+  parent?: string | null; // Parent context name
+  description?: string | null;
+  status?: ContextStatus;
+  defaultTtlDays?: number | null;
+  defaultTags?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ExportedJot {
+  context: string; // Context name, ids are not portable between databases
+  message: string;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number | null;
+  status?: JotStatus; // Optional for documents written before statuses existed
+  completedAt?: number | null;
+  priority?: JotPriority;
+  pinned?: boolean;
+  tags: string[];
+  metadata: Record<string, string>;
+  anchors?: CodeAnchor[]; // Optional for documents written before anchors existed
+  parent?: number | null; // Index of the parent jot in the document's jots
+  links?: ExportedLink[]; // Outgoing links
+}
+
+export interface ExportedLink {
+  jot: number; // Index of the linked jot in the document's jots
+  relation: LinkRelation;
+}
+
+export interface ExportDocument {
+  format: 'jot-mcp';
+  version: number;
+  exportedAt: number;
+  contexts: ExportedContext[];
+  jots: ExportedJot[];
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+/**
+ * Outcome of merging one context into another
+ */
+export interface MergeResult {
+  target: Context;
+  moved: number; // Jots moved into the target
+  duplicates: number; // Jots already in the target, folded into the existing jot and trashed
+}
+
+/**
+ * How context names are derived from git
+ */
+export interface ContextNamingConfig {
+  includeBranch: boolean; // Append the branch to the repository name
+  mainBranches: string[]; // Branches that map to the bare repository name
+  stripBranchPrefixes: string[]; // e.g. "feature/" turns feature/login into login
+  ticketPattern: string | null; // Regex; a match (or its first group) replaces the branch
+  packageDirs: string[]; // Monorepo folders whose subfolders become part of the name
+  includeOwner: boolean; // Always name contexts owner/repo
+  separator: string; // Between repository, package and branch
+  fallback: string; // Name used outside git when the directory has no name
+}
+
+/**
+ * What happens to expired and deleted jots
+ */
+export interface CleanupConfig {
+  mode: CleanupMode;
+  trashRetentionDays: number;
+}
+
+/**
+ * How new jots are checked against existing ones in their context
+ */
+export interface DuplicatesConfig {
+  threshold: number; // Minimum similarity (0-1) for a near-duplicate; above 1 only exact duplicates count
+  onDuplicate: DuplicateAction;
+}
+
+/**
+ * Resolved settings from defaults, config files and environment
+ */
+export interface JotConfig {
+  databasePath?: string; // Overrides the default location in the storage directory
+  defaultTtlDays: number;
+  defaultTags: string[];
+  expiringSoonDays: number;
+  outputFormat: OutputFormat;
+  contextNaming: ContextNamingConfig;
+  cleanup: CleanupConfig;
+  duplicates: DuplicatesConfig;
+  semanticSearch: boolean; // Keep an embedding index for semantic and hybrid search
 }